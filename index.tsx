@@ -2,10 +2,10 @@ import React, {
   createContext, useContext, useReducer, useEffect, useRef, useCallback, useState, ReactNode, DragEvent, ClipboardEvent, useId, useMemo, ChangeEvent
 } from "react";
 import { createRoot } from "react-dom/client";
-import { GoogleGenAI, Modality } from "@google/genai";
+import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
 import clsx from "clsx";
 import { twMerge } from "tailwind-merge";
-import { Upload, Wand2, Undo2, Redo2, ClipboardCopy, Download, RotateCcw, ChevronDown, PenSquare, Trash2, Eye, X, ChevronsLeftRight, GalleryVerticalEnd } from 'lucide-react';
+import { Upload, Wand2, Undo2, Redo2, ClipboardCopy, Download, RotateCcw, ChevronDown, PenSquare, Trash2, Eye, X, ChevronsLeftRight, GalleryVerticalEnd, Pause, Play, RefreshCw, FileArchive, Brush, Eraser, Crop, ScanEye, AlertTriangle, ZoomIn, Save, FolderOpen, FileSpreadsheet, Receipt, Cpu } from 'lucide-react';
 
 // React 19 runtime check (non-crashing)
 ;(window as any).React = React;
@@ -15,9 +15,74 @@ if (!v?.startsWith("19.")) {
 }
 
 /* ---------- constants ---------- */
-const GEMINI_MODEL_NAME: ModelName = "gemini-2.5-flash-image-preview";
-const MAX_IMAGE_UPLOAD_SIZE_BYTES = 15 * 1024 * 1024; // 15MB
+const DEFAULT_MODEL: ModelName = "gemini-2.5-flash-image-preview";
+const MAX_IMAGE_UPLOAD_SIZE_BYTES = 15 * 1024 * 1024; // 15MB; larger uploads are re-encoded down to this
+const MAX_IMAGE_INGEST_SIZE_BYTES = 200 * 1024 * 1024;
+const INGEST_MAX_EDGE_OPTIONS = [1536, 2048, 3072, 4096, 6144];
+const DEFAULT_INGEST_MAX_EDGE = 3072;
+const INGEST_MIN_EDGE = 512;
+const INGEST_JPEG_QUALITY = 0.92;
+const INGEST_MAX_EDGE_STORAGE_KEY = 'ai-portrait-ingest-max-edge';
 const BATCH_CONCURRENCY = 2;
+const BATCH_MAX_CONCURRENCY = 4;
+const MAX_VARIANTS = 4;
+const HISTORY_LIMIT = 100;
+const HISTORY_VALUE_MAX_LENGTH = 24;
+const BATCH_MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+const GEMINI_REQUEST_TIMEOUT_MS = 180000;
+// Tiled super-resolution: each tile is sized so the model's ~1024px output holds real detail at the chosen factor.
+const TILED_SR_TILE_OUTPUT_EDGE = 1024;
+const TILED_SR_OVERLAP = 0.125;
+const TILED_SR_MAX_TILES = 64;
+const TILED_SR_MAX_PIXELS = 64_000_000;
+const QUALITY_ANALYSIS_EDGE = 256;
+const QUALITY_HEATMAP_EDGE = 768;
+const QUALITY_THRESHOLDS_STORAGE_KEY = 'ai-portrait-quality-thresholds';
+const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = { minSsim: 0.5, minPsnr: 15, maxHistogramShift: 0.3 };
+// Gemini accepts up to 20MB of inline data per request, counted as base64.
+const GEMINI_INLINE_MAX_BYTES = 20 * 1024 * 1024;
+// Prices are USD per million tokens; image output is billed as output tokens (about 1290 per image).
+const BUILT_IN_MODELS: ModelInfo[] = [
+  { id: "gemini-2.5-flash-image-preview", label: "Gemini 2.5 Flash Image (preview)", imageOutput: true, multiImageInput: true, maxInputBytes: GEMINI_INLINE_MAX_BYTES, pricing: { inputPerMillion: 0.3, outputPerMillion: 30 }, isBuiltIn: true },
+  { id: "gemini-2.5-flash-image", label: "Gemini 2.5 Flash Image", imageOutput: true, multiImageInput: true, maxInputBytes: GEMINI_INLINE_MAX_BYTES, pricing: { inputPerMillion: 0.3, outputPerMillion: 30 }, isBuiltIn: true },
+  { id: "gemini-3-pro-image-preview", label: "Gemini 3 Pro Image (preview)", imageOutput: true, multiImageInput: true, maxInputBytes: GEMINI_INLINE_MAX_BYTES, pricing: { inputPerMillion: 2, outputPerMillion: 120 }, isBuiltIn: true },
+];
+const MODELS_STORAGE_KEY = 'ai-portrait-models';
+const ACTIVE_MODEL_STORAGE_KEY = 'ai-portrait-active-model';
+const DEFAULT_PRICE_TABLE: PriceTable = Object.fromEntries(BUILT_IN_MODELS.map(m => [m.id, m.pricing]));
+const PRICE_TABLE_STORAGE_KEY = 'ai-portrait-price-table';
+const USAGE_BUDGETS_STORAGE_KEY = 'ai-portrait-usage-budgets';
+const USAGE_CLIENT_STORAGE_KEY = 'ai-portrait-usage-client';
+const USAGE_RECENT_LIMIT = 50;
+const RESULT_CACHE_STORAGE_KEY = 'ai-portrait-result-cache';
+const RESULT_CACHE_SIZE_OPTIONS = [100, 250, 500, 1000, 2000].map(mb => mb * 1024 * 1024);
+const DEFAULT_RESULT_CACHE: ResultCacheSettings = { enabled: true, maxBytes: 500 * 1024 * 1024 };
+const SESSION_STARTED_AT = Date.now();
+const RETRYABLE_HTTP_STATUSES = [408, 429, 500, 502, 503, 504];
+const PROVIDER_STORAGE_KEY = 'ai-portrait-provider';
+const LOCAL_PROVIDER_MAX_EDGE = 4096;
+const TONE_PREVIEW_MAX_EDGE = 1200;
+const VIEWER_MAX_ZOOM = 8;
+const WHEEL_ZOOM_SPEED = 0.002;
+const LOUPE_SIZE = 160;
+const LOUPE_ZOOM = 3;
+const FLICKER_INTERVAL_MS = 600;
+const MASK_PREVIEW_RGB = [255, 59, 48] as const;
+const DB_NAME = 'ai-portrait-studio';
+const DB_VERSION = 4;
+const LEGACY_LIBRARY_STORAGE_KEY = 'ai-portrait-library';
+const LIBRARY_THUMBNAIL_EDGE = 256;
+const EXPORT_TEMPLATE_STORAGE_KEY = 'ai-portrait-export-template';
+const DEFAULT_EXPORT_TEMPLATE = '{index}-{name}-{preset}-{scale}';
+const PROJECT_FORMAT = 'ai-portrait-studio-project';
+const PROJECT_VERSION = 1;
+const PROJECT_FILE_EXTENSION = '.aips';
+const SESSION_SAVE_DELAY_MS = 1000;
+const PROMPT_TEMPLATES_STORAGE_KEY = 'ai-portrait-prompt-templates';
+const EXPORT_PROFILES_STORAGE_KEY = 'ai-portrait-export-profiles';
+const PRESETS_BACKUP_STORAGE_KEY = 'ai-portrait-presets-backup';
 const ENHANCEMENT_LOADING_MESSAGES = [
   "Analyzing portrait details...",
   "Applying advanced color correction...",
@@ -37,8 +102,49 @@ const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
 
 function cn(...i: any[]) { return twMerge(clsx(i)); }
 
+// cyrb53: fast non-cryptographic string hash, used to recognise the same source image across uploads.
+function hashString(str: string, seed = 0): string {
+  let h1 = 0xdeadbeef ^ seed, h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, "0");
+}
+
+// One stored JSON setting; undefined when missing or unreadable, so a corrupt value cannot stop the others loading.
+function readStoredJson(key: string): unknown {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return undefined;
+  try { return JSON.parse(raw); } catch (e) { console.error(`Could not read ${key} from localStorage`, e); return undefined; }
+}
+
+function getInitialProvider(): ProviderId {
+  let requested: string | null = null;
+  try {
+    requested = new URLSearchParams(window.location.search).get("provider") ?? localStorage.getItem(PROVIDER_STORAGE_KEY);
+  } catch (e) { console.error("Could not read provider preference", e); }
+  if (requested === "gemini" || requested === "local") return requested;
+  return apiKey ? "gemini" : "local";
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = (err) => reject(err);
+        img.src = src;
+    });
+}
+
 function downloadFile(content: string, fileName: string, mimeType: string) {
-  const blob = new Blob([content], { type: mimeType });
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
   const link = document.createElement("a");
   link.href = URL.createObjectURL(blob);
   link.download = fileName;
@@ -48,7 +154,7 @@ function downloadFile(content: string, fileName: string, mimeType: string) {
   URL.revokeObjectURL(link.href);
 }
 
-async function convertImage(base64: string, mimeType: 'image/jpeg' | 'image/webp', quality: number): Promise<string> {
+async function convertImage(base64: string, mimeType: 'image/png' | 'image/jpeg' | 'image/webp', quality: number): Promise<string> {
     return new Promise((resolve, reject) => {
         const img = new Image();
         img.onload = () => {
@@ -66,256 +172,2684 @@ async function convertImage(base64: string, mimeType: 'image/jpeg' | 'image/webp
 }
 
 /* ---------- types ---------- */
-type ModelName = "gemini-2.5-flash-image-preview";
+// Any id the provider understands; what a model can do is looked up in the model registry.
+type ModelName = string;
+// `maxInputBytes` bounds the base64 image data of one request; `multiImageInput` is needed for masks and refinements.
+type ModelInfo = { id: ModelName; label: string; imageOutput: boolean; multiImageInput: boolean; maxInputBytes: number;
+  pricing: { inputPerMillion: number; outputPerMillion: number }; isBuiltIn?: boolean };
 type ToolStates = {
-  superResolution: { enabled: boolean; upscale: "2x" | "4x" | "8x" };
+  // tiled: enhance first, then upscale in overlapping tiles to exactly upscale x the input size.
+  superResolution: { enabled: boolean; upscale: "2x" | "4x" | "8x"; tiled: boolean };
   colorTone: {
     enabled: boolean; whiteBalance: "auto" | "custom";
     temp: number; tint: number; exposure: number; contrast: number;
     highlights: number; shadows: number; vibrance: number; saturation: number;
     skinTone: "neutral" | "slightly warm";
+    mode: "prompt" | "local" | "both";
   };
   facialRetouch: { enabled: boolean; intensity: "low" | "medium"; eyeEnhance: boolean; teethWhiten: boolean };
   preserveDetails: { enabled: boolean; strength: 'medium' | 'high' };
   hairStyling: { enabled: boolean; mode: "keep" | "color" | "custom"; color: string; customInstruction: string };
   background: { enabled: boolean; mode: "keep" | "solid" | "blur" | "custom"; solidColor: string; customInstruction: string };
-  crop: { enabled: boolean; aspectRatio: "original" | "1:1" | "4:5" | "16:9" };
+  // x/y/w/h: crop rect normalised to the straightened image; angle in degrees. "pixels" applies it on canvas, "prompt" asks the model.
+  crop: {
+    enabled: boolean; aspectRatio: "free" | "original" | "1:1" | "4:5" | "16:9" | "custom"; ratioW: number; ratioH: number;
+    mode: "pixels" | "prompt"; stage: "before" | "after"; x: number; y: number; w: number; h: number; angle: number;
+  };
   distractions: { enabled: boolean; list: string };
   noiseAndOptics: { enabled: boolean; lumaNoise: number; chromaNoise: number; caFix: number; vignette: number; distortion: number; };
 };
-type ImageFile = { name: string; type: string; data: string };
-type Preset = { id: string; name: string; tools: ToolStates; isBuiltIn?: boolean };
-type BatchItem = { id: string; file: ImageFile; status: 'pending' | 'processing' | 'done' | 'error' | 'cancelled'; result?: string; prompt?: string; error?: string, preset?: ToolStates };
+// The upload as received, before orientation, downscaling and format conversion; width/height are upright.
+type SourceInfo = { type: string; bytes: number; width: number; height: number; orientation: number };
+type ImageFile = { name: string; type: string; data: string; source?: SourceInfo };
+// Painted edit region at the source image's resolution: white = editable, black = keep. Scope limits either the removal step or every edit.
+type ImageMask = { data: string; scope: "removal" | "all" };
+// Follow-up edits on a result. `base` is the first enhancement; `active` is the shown turn (-1 = base).
+type RefinementTurn = { id: string; instruction: string; prompt: string; image: string; createdAt: number };
+type RefinementThread = { base: string; turns: RefinementTurn[]; active: number };
+// One of several parallel results for the same settings; only kept candidates are written to the library.
+// Candidates from a model comparison differ by `model`; variants all share one.
+type Candidate = { id: string; image: string; prompt: string; base?: string; tools: ToolStates; model: ModelName; mask?: ImageMask; parentId?: string; kept?: boolean };
+// Wording for each prompt section; {{group.field}} placeholders are bound to ToolStates. Only overrides are stored.
+type PromptTemplateKey = "header" | "superResolution" | "superResolutionTile" | "colorTone" | "colorToneLocal" | "facialRetouch" | "preserveDetails"
+  | "hairStyling" | "background" | "crop" | "removal" | "removalMasked" | "noiseAndOptics" | "footer";
+type PromptTemplates = Partial<Record<PromptTemplateKey, string>>;
+// `model` pins the preset to a model: loading it switches the active model, and batch items run with it.
+type Preset = { id: string; name: string; tools: ToolStates; promptTemplates?: PromptTemplates; model?: ModelName; isBuiltIn?: boolean };
+// Result vs. (resized) original: luma SSIM and PSNR for structure, mean RGB histogram distance (0-1) for colour.
+type QualityMetrics = { ssim: number; psnr: number; histogramShift: number };
+type QualityThresholds = { minSsim: number; minPsnr: number; maxHistogramShift: number };
+// `model` is the model the item runs with (pinned by a preset or manifest, else the active one) and, once done, the one it ran with.
+// `promptTemplates` are the templates that go with `preset`; items without them use the current templates.
+type BatchItem = { id: string; file: ImageFile; status: 'pending' | 'processing' | 'retrying' | 'done' | 'error' | 'cancelled'; result?: string; prompt?: string; error?: string, preset?: ToolStates; presetName?: string; promptTemplates?: PromptTemplates; mask?: ImageMask; refinement?: RefinementThread; attempts?: number;
+  parentId?: string; model?: ModelName; progress?: TileProgress; metrics?: QualityMetrics; outputName?: string;
+  cached?: boolean; refreshCache?: boolean; failure?: ErrorInfo };
+
+// Lightweight library record kept in state; full-size images live in IndexedDB and are loaded on demand.
+// Entries sharing a sourceKey are versions of one source image, linked into a tree by parentId.
+type LibraryEntry = { id: string; sourceKey?: string; parentId?: string; model?: ModelName; metrics?: QualityMetrics; outputName?: string; cached?: boolean; name: string; type: string; source?: SourceInfo; createdAt: number; thumbnail: string; bytes: number; prompt?: string; preset?: ToolStates; presetName?: string; mask?: ImageMask;
+  refinement?: { active: number; turns: Omit<RefinementTurn, "image">[] } };
+
+type ProviderId = "gemini" | "local";
+type TileProgress = { done: number; total: number };
+// `prompt` replaces the one built from tools (used for per-tile requests); `models` is the registry `model` is checked against.
+// `onUsage` hears about every provider call the request makes, including failed ones and each tile of a tiled upscale.
+type EnhancementRequest = {
+  image: ImageFile; tools: ToolStates; model: ModelName; models: Readonly<ModelInfo[]>; mask?: ImageMask; templates?: PromptTemplates; prompt?: string;
+  signal?: AbortSignal; onProgress?: (progress: TileProgress) => void; onUsage?: (event: UsageEvent) => void;
+  // Set when the result cache is on; `refresh` skips the lookup but still stores the new result.
+  cache?: { refresh: boolean; maxBytes: number };
+};
+type TokenUsage = { promptTokens: number; outputTokens: number; totalTokens: number };
+// Why a provider call failed, in terms the user can act on; `retryable` decides whether the batch tries again.
+type ErrorKind = "missing-key" | "auth" | "quota" | "safety" | "refusal" | "invalid-image" | "model" | "network" | "timeout" | "server" | "aborted" | "unknown";
+// `detail` is the raw message; `retryAfterMs` is the wait the API asked for, when it said.
+type ErrorInfo = { kind: ErrorKind; title: string; explanation: string; fix: string; retryable: boolean; detail: string;
+  status?: number; finishReason?: string; retryAfterMs?: number };
+type EnhancementMetadata = { provider: ProviderId; model: ModelName; durationMs: number; width?: number; height?: number; finishReason?: string; usage?: TokenUsage; cached?: boolean };
+type RefinementRequest = { original: ImageFile; basePrompt: string; previous: string; history: string[]; instruction: string; model: ModelName; models: Readonly<ModelInfo[]>; signal?: AbortSignal;
+  onUsage?: (event: UsageEvent) => void };
+type UsageEvent = {
+  kind: "enhance" | "refine"; provider: ProviderId; model: ModelName; prompt: string; durationMs: number; usage?: TokenUsage;
+  outcome: "success" | "error" | "aborted"; finishReason?: string; error?: string; errorKind?: ErrorKind;
+};
+// Audit log entry. `cost` is priced when the call is made, so later price changes do not rewrite history.
+type UsageRecord = Omit<UsageEvent, "prompt"> & { id: string; at: number; promptSha256: string; imageName: string; itemId?: string; client?: string; cost?: number };
+type PriceTable = Record<string, { inputPerMillion: number; outputPerMillion: number }>;
+// Spend limits in USD; the batch budget covers the items currently in the queue.
+type UsageBudgets = { session?: number; batch?: number };
+type ResultCacheSettings = { enabled: boolean; maxBytes: number };
+type EnhancementResult = { image: string; prompt: string; metadata: EnhancementMetadata; base?: string };
+type EnhancementProvider = {
+  id: ProviderId; name: string;
+  isAvailable: () => boolean;
+  enhance: (req: EnhancementRequest) => Promise<EnhancementResult>;
+  refine: (req: RefinementRequest) => Promise<EnhancementResult>;
+};
 
+// `key` identifies the interaction and control that made the edit, so edits from one interaction can be merged.
+type HistoryEntry = { tools: ToolStates; label: string; key?: string; at: number };
 type AppState = {
-  history: { tools: ToolStates }[]; historyIndex: number;
-  currentImage: ImageFile | null; enhancedImage: string | null;
+  history: HistoryEntry[]; historyIndex: number;
+  // Start time of the slider drag or text edit in progress, if any; see updateToolHistory.
+  editGesture: number | null;
+  // Histories of other images, by imageKey, restored when that image is opened again.
+  savedHistories: Record<string, { entries: HistoryEntry[]; index: number }>;
+  currentImage: ImageFile | null; enhancedImage: string | null; enhancedBase: string | null; mask: ImageMask | null;
+  activeItemId: string | null; refinement: RefinementThread | null;
+  variantCount: number; candidates: Candidate[]; ingestMaxEdge: number;
+  compareWith: { id: string; image: string; label: string } | null;
+  enhanceProgress: TileProgress | null;
   isLoading: boolean;
   toast: { id: number; message: string; type: "success" | "error" } | null;
-  activeModel: ModelName; tools: ToolStates; currentPrompt: string;
-  userPresets: Preset[]; showBuiltInPresets: boolean; batchQueue: BatchItem[];
-  enhancedLibrary: BatchItem[];
+  activeModel: ModelName; activeProvider: ProviderId; tools: ToolStates; currentPrompt: string; promptTemplates: PromptTemplates;
+  customModels: ModelInfo[];
+  userPresets: Preset[]; showBuiltInPresets: boolean; exportProfiles: ExportProfile[]; qualityThresholds: QualityThresholds; batchQueue: BatchItem[];
+  batchPaused: boolean; batchConcurrency: number;
+  enhancedLibrary: LibraryEntry[];
+  usageLog: UsageRecord[]; priceTable: PriceTable; usageBudgets: UsageBudgets; usageClient: string; resultCache: ResultCacheSettings;
 };
+// The part of AppState that makes up a user's work: saved as a project file and restored on reload.
+type Workspace = Pick<AppState, "currentImage" | "enhancedImage" | "enhancedBase" | "mask" | "activeItemId" | "refinement" | "currentPrompt" | "tools"
+  | "history" | "historyIndex" | "savedHistories" | "promptTemplates" | "batchQueue" | "batchConcurrency">;
 type Action =
   | { type: "UPDATE_TOOL"; payload: { tool: keyof ToolStates; settings: Partial<ToolStates[keyof ToolStates]> } }
-  | { type: "UNDO" } | { type: "REDO" }
+  | { type: "UNDO" } | { type: "REDO" } | { type: "JUMP_HISTORY"; payload: { index: number } }
+  | { type: "BEGIN_EDIT_GESTURE" } | { type: "END_EDIT_GESTURE" }
   | { type: "SET_IMAGE"; payload: ImageFile | null }
   | { type: "SELECT_BATCH_ITEM"; payload: BatchItem }
-  | { type: "ENHANCE_START" } | { type: "ENHANCE_SUCCESS"; payload: { image: string, prompt: string } } | { type: "ENHANCE_FAILURE"; payload: string }
+  | { type: "SET_MASK"; payload: ImageMask | null }
+  | { type: "ENHANCE_START" } | { type: "ENHANCE_SUCCESS"; payload: { image: string, prompt: string, base?: string, id?: string } } | { type: "ENHANCE_FAILURE"; payload: string }
+  | { type: "SET_COMPARE"; payload: AppState["compareWith"] }
+  | { type: "SET_ENHANCE_PROGRESS"; payload: TileProgress | null }
+  | { type: "SET_VARIANT_COUNT"; payload: number }
+  | { type: "SET_INGEST_MAX_EDGE"; payload: number }
+  | { type: "CANDIDATES_SUCCESS"; payload: { candidates: Candidate[] } }
+  | { type: "SELECT_CANDIDATE"; payload: { id: string } }
+  | { type: "MARK_CANDIDATES_KEPT"; payload: { ids: string[] } }
+  | { type: "DISCARD_CANDIDATES"; payload: { ids: string[] } }
+  | { type: "REFINE_START" } | { type: "REFINE_SUCCESS"; payload: { thread: RefinementThread } } | { type: "REFINE_FAILURE" }
+  | { type: "SELECT_REFINEMENT"; payload: { index: number } }
   | { type: "SHOW_TOAST"; payload: { message: string, type: 'success' | 'error' } }
   | { type: "HIDE_TOAST" }
   | { type: "RESET_STATE" }
+  | { type: "RESTORE_WORKSPACE"; payload: Workspace }
   | { type: "TOGGLE_BUILTIN_PRESETS" }
+  | { type: "SET_PROVIDER"; payload: ProviderId }
+  | { type: "SET_MODEL"; payload: ModelName }
+  | { type: "SAVE_MODEL"; payload: ModelInfo }
+  | { type: "DELETE_MODEL"; payload: { id: ModelName } }
+  | { type: "LOAD_MODELS"; payload: ModelInfo[] }
   | { type: "SAVE_PRESET"; payload: { preset: Preset } }
-  | { type: "LOAD_PRESET"; payload: { tools: ToolStates } }
+  | { type: "LOAD_PRESET"; payload: { tools: ToolStates; promptTemplates?: PromptTemplates; name?: string; model?: ModelName } }
+  | { type: "SET_PROMPT_TEMPLATES"; payload: PromptTemplates }
+  | { type: "SAVE_EXPORT_PROFILE"; payload: ExportProfile }
+  | { type: "DELETE_EXPORT_PROFILE"; payload: { id: string } }
+  | { type: "LOAD_EXPORT_PROFILES"; payload: ExportProfile[] }
+  | { type: "SET_QUALITY_THRESHOLDS"; payload: QualityThresholds }
   | { type: "DELETE_PRESET"; payload: { id: string } }
   | { type: "RENAME_PRESET"; payload: { id: string, name: string } }
+  | { type: "SET_PRESET_MODEL"; payload: { id: string; model?: ModelName } }
   | { type: "IMPORT_PRESETS"; payload: { presets: Preset[] } }
-  | { type: "ADD_TO_BATCH"; payload: { files: ImageFile[] } }
+  | { type: "ADD_TO_BATCH"; payload: { files: ImageFile[] } | { items: Pick<BatchItem, "file" | "preset" | "presetName" | "promptTemplates" | "outputName" | "model">[] } }
   | { type: "UPDATE_BATCH_ITEM"; payload: Partial<BatchItem> & { id: string } }
   | { type: "CLEAR_BATCH" }
-  | { type: "APPLY_PRESET_TO_BATCH"; payload: { tools: ToolStates } }
+  | { type: "RETRY_FAILED_BATCH" }
+  | { type: "SET_BATCH_PAUSED"; payload: boolean }
+  | { type: "SET_BATCH_CONCURRENCY"; payload: number }
+  | { type: "APPLY_PRESET_TO_BATCH"; payload: { tools: ToolStates; promptTemplates: PromptTemplates; name?: string; model?: ModelName } }
   | { type: "SET_ENHANCED_IMAGE"; payload: string | null }
-  | { type: "ADD_TO_LIBRARY"; payload: { item: BatchItem } }
+  | { type: "REGRADE_ENHANCED_IMAGE"; payload: string }
+  | { type: "ADD_TO_LIBRARY"; payload: { entry: LibraryEntry } }
   | { type: "REMOVE_FROM_LIBRARY"; payload: { id: string } }
   | { type: "CLEAR_LIBRARY" }
-  | { type: "LOAD_LIBRARY"; payload: { library: BatchItem[] } };
+  | { type: "LOAD_LIBRARY"; payload: { library: LibraryEntry[] } }
+  | { type: "ADD_USAGE_RECORD"; payload: UsageRecord }
+  | { type: "LOAD_USAGE_LOG"; payload: UsageRecord[] }
+  | { type: "CLEAR_USAGE_LOG" }
+  | { type: "SET_PRICE_TABLE"; payload: PriceTable }
+  | { type: "SET_USAGE_BUDGETS"; payload: UsageBudgets }
+  | { type: "SET_USAGE_CLIENT"; payload: string }
+  | { type: "SET_RESULT_CACHE"; payload: ResultCacheSettings };
 
 
 /* ---------- state ---------- */
 const initialToolStates: ToolStates = {
-  superResolution: { enabled: true, upscale: "2x" },
+  superResolution: { enabled: true, upscale: "2x", tiled: true },
   colorTone: {
     enabled: true, whiteBalance: "auto",
     temp: 0, tint: 0, exposure: 0, contrast: 0, highlights: 0, shadows: 0, vibrance: 0, saturation: 0,
-    skinTone: "neutral"
+    skinTone: "neutral", mode: "prompt"
   },
   facialRetouch: { enabled: true, intensity: "low", eyeEnhance: true, teethWhiten: true },
   preserveDetails: { enabled: false, strength: 'medium' },
   hairStyling: { enabled: true, mode: "color", color: "#5C3D2E", customInstruction: "" },
   background: { enabled: false, mode: "keep", solidColor: "#ffffff", customInstruction: "" },
-  crop: { enabled: false, aspectRatio: "original" },
+  crop: { enabled: false, aspectRatio: "original", ratioW: 3, ratioH: 2, mode: "pixels", stage: "before", x: 0, y: 0, w: 1, h: 1, angle: 0 },
   distractions: { enabled: false, list: "" },
   noiseAndOptics: { enabled: false, lumaNoise: 0, chromaNoise: 0, caFix: 0, vignette: 0, distortion: 0 },
 };
 
 const initialState: AppState = {
-  history: [{ tools: initialToolStates }], historyIndex: 0,
-  currentImage: null, enhancedImage: null, isLoading: false, toast: null,
-  activeModel: GEMINI_MODEL_NAME, tools: initialToolStates, currentPrompt: "",
-  userPresets: [], showBuiltInPresets: false, batchQueue: [], enhancedLibrary: [],
+  history: [{ tools: initialToolStates, label: "Start", at: 0 }], historyIndex: 0, editGesture: null, savedHistories: {},
+  currentImage: null, enhancedImage: null, enhancedBase: null, mask: null, activeItemId: null, refinement: null, variantCount: 1, candidates: [], ingestMaxEdge: DEFAULT_INGEST_MAX_EDGE, compareWith: null, enhanceProgress: null, isLoading: false, toast: null,
+  activeModel: DEFAULT_MODEL, activeProvider: getInitialProvider(), tools: initialToolStates, currentPrompt: "", promptTemplates: {}, customModels: [],
+  userPresets: [], showBuiltInPresets: false, exportProfiles: [], qualityThresholds: DEFAULT_QUALITY_THRESHOLDS, batchQueue: [], enhancedLibrary: [],
+  batchPaused: false, batchConcurrency: BATCH_CONCURRENCY,
+  usageLog: [], priceTable: DEFAULT_PRICE_TABLE, usageBudgets: {}, usageClient: "", resultCache: DEFAULT_RESULT_CACHE,
+};
+
+const TOOL_TITLES: Record<keyof ToolStates, string> = {
+  superResolution: "Super Resolution", colorTone: "Color & Tone", facialRetouch: "Facial Retouch", preserveDetails: "Preserve Details",
+  hairStyling: "Hair Styling", background: "Background", crop: "Crop & Straighten", distractions: "Remove Distractions", noiseAndOptics: "Noise & Optics",
 };
+// Names for fields whose key doesn't read well once de-camel-cased; the rest are derived from the key.
+const FIELD_LABELS: Record<string, string> = {
+  temp: "Temperature", caFix: "Fix CA", lumaNoise: "Luma noise", chromaNoise: "Chroma noise", eyeEnhance: "Enhance eyes", teethWhiten: "Whiten teeth",
+  solidColor: "Background color", color: "Hair color", list: "Distractions", ratioW: "Ratio width", ratioH: "Ratio height", angle: "Straighten",
+  tiled: "Exact size (tiled)", stage: "Crop timing", x: "Frame", y: "Frame", w: "Frame", h: "Frame",
+};
+const fieldLabel = (field: string) => FIELD_LABELS[field] ?? field.replace(/([A-Z])/g, " $1").replace(/^./, c => c.toUpperCase()).replace(/ (\w)/g, (_, c: string) => ` ${c.toLowerCase()}`);
+const formatHistoryValue = (v: unknown) => typeof v === "boolean" ? (v ? "on" : "off") : typeof v === "number" ? String(Math.round(v * 10) / 10) : String(v);
+
+// "Exposure 0 → 4", "Facial Retouch on", "Crop & Straighten: x, y, w, h"; null when nothing changed.
+function describeToolChange<K extends keyof ToolStates>(tool: K, before: ToolStates[K], after: ToolStates[K]): string | null {
+  const prev = before as Record<string, unknown>, next = after as Record<string, unknown>;
+  const changed = Object.keys(next).filter(k => prev[k] !== next[k]);
+  if (changed.length === 0) return null;
+  if (changed.length > 1) return `${TOOL_TITLES[tool]}: ${[...new Set(changed.map(fieldLabel))].join(", ")}`;
+  const [field] = changed;
+  if (field === "enabled") return `${TOOL_TITLES[tool]} ${next.enabled ? "on" : "off"}`;
+  const from = formatHistoryValue(prev[field]), to = formatHistoryValue(next[field]);
+  if (typeof next[field] === "boolean") return `${fieldLabel(field)} ${to}`;
+  if (from.length > HISTORY_VALUE_MAX_LENGTH || to.length > HISTORY_VALUE_MAX_LENGTH) return `${fieldLabel(field)} edited`;
+  return `${fieldLabel(field)} ${from || "—"} → ${to || "—"}`;
+}
+
+const historyEntry = (tools: ToolStates, label: string, key?: string): HistoryEntry => ({ tools, label, key, at: Date.now() });
+
+// Appends an entry after the current position, dropping any redo tail; with `replace` it overwrites the current entry instead.
+function pushHistory(state: AppState, tools: ToolStates, label: string, key?: string, replace = false): Pick<AppState, "tools" | "history" | "historyIndex"> {
+  const history = [...state.history.slice(0, state.historyIndex + (replace ? 0 : 1)), historyEntry(tools, label, key)].slice(-HISTORY_LIMIT);
+  return { tools, history, historyIndex: history.length - 1 };
+}
+
+// Edits from the same control during one gesture (pointerdown to pointerup on a slider, focus to blur on a text field)
+// are merged into one entry, labelled from the state before the gesture began. Edits outside a gesture each get their own entry.
+function updateToolHistory(state: AppState, tool: keyof ToolStates, settings: Partial<ToolStates[keyof ToolStates]>): Partial<AppState> {
+  const tools = { ...state.tools, [tool]: { ...state.tools[tool], ...settings } } as ToolStates;
+  const key = state.editGesture === null ? undefined : `${state.editGesture}:${tool}:${Object.keys(settings).sort().join(",")}`;
+  const top = state.history[state.historyIndex];
+  const merge = key !== undefined && state.historyIndex > 0 && top.key === key;
+  const base = merge ? state.history[state.historyIndex - 1].tools : state.tools;
+  const label = describeToolChange(tool, base[tool], tools[tool]);
+  if (label) return pushHistory(state, tools, label, key, merge);
+  // The gesture ended where it started: drop its entry rather than keep a no-op step.
+  if (merge) return { tools, history: state.history.slice(0, state.historyIndex), historyIndex: state.historyIndex - 1 };
+  return { tools };
+}
+
+// Parks the current image's history and brings back the target's, so undo survives switching between images.
+function switchImageHistory(state: AppState, image: ImageFile | null, tools?: ToolStates, label?: string): Partial<AppState> {
+  const savedHistories = state.currentImage ? { ...state.savedHistories, [imageKey(state.currentImage)]: { entries: state.history, index: state.historyIndex } } : state.savedHistories;
+  const saved = image ? savedHistories[imageKey(image)] : undefined;
+  if (!saved) {
+    const start = tools ?? state.tools;
+    return { savedHistories, tools: start, history: [historyEntry(start, image ? `Opened ${image.name}` : "Start")], historyIndex: 0 };
+  }
+  const restored = { ...state, history: saved.entries, historyIndex: saved.index, tools: saved.entries[saved.index].tools };
+  if (tools && JSON.stringify(tools) !== JSON.stringify(restored.tools)) return { savedHistories, ...pushHistory(restored, tools, label ?? "Loaded saved settings") };
+  return { savedHistories, tools: restored.tools, history: restored.history, historyIndex: restored.historyIndex };
+}
 
 const appReducer = (state: AppState, action: Action): AppState => {
   switch (action.type) {
-    case "UPDATE_TOOL": {
-      const newTools = { ...state.tools, [action.payload.tool]: { ...state.tools[action.payload.tool], ...action.payload.settings } } as ToolStates;
-      const newHistory = [...state.history.slice(0, state.historyIndex + 1), { tools: newTools }];
-      return { ...state, tools: newTools, history: newHistory, historyIndex: newHistory.length - 1 };
+    case "UPDATE_TOOL": return { ...state, ...updateToolHistory(state, action.payload.tool, action.payload.settings) };
+    case "BEGIN_EDIT_GESTURE": return { ...state, editGesture: Date.now() };
+    case "END_EDIT_GESTURE": return state.editGesture === null ? state : { ...state, editGesture: null };
+    case "UNDO":
+      if (state.historyIndex > 0) {
+        const i = state.historyIndex - 1;
+        return { ...state, historyIndex: i, tools: state.history[i].tools };
+      }
+      return state;
+    case "REDO":
+      if (state.historyIndex < state.history.length - 1) {
+        const i = state.historyIndex + 1;
+        return { ...state, historyIndex: i, tools: state.history[i].tools };
+      }
+      return state;
+    case "JUMP_HISTORY": {
+      const i = Math.min(state.history.length - 1, Math.max(0, action.payload.index));
+      return { ...state, historyIndex: i, tools: state.history[i].tools };
+    }
+    case "SET_IMAGE": 
+        return { ...state, currentImage: action.payload, enhancedImage: null, enhancedBase: null, mask: null, activeItemId: null, refinement: null, candidates: [], compareWith: null, isLoading: false, ...switchImageHistory(state, action.payload) };
+    case "SELECT_BATCH_ITEM":
+        return { ...state, currentImage: action.payload.file, enhancedImage: action.payload.result || null, enhancedBase: null, mask: action.payload.mask ?? null, activeItemId: action.payload.id, refinement: action.payload.refinement ?? null, candidates: [],
+          compareWith: action.payload.file.data === state.currentImage?.data ? state.compareWith : null, currentPrompt: action.payload.prompt ?? state.currentPrompt,
+          ...switchImageHistory(state, action.payload.file, action.payload.preset, `Opened ${action.payload.presetName ?? "saved"} settings`) };
+    case "SET_MASK": {
+        // Keep the queued copy of the current image in sync so batch runs use the same mask.
+        const batchQueue = state.batchQueue.map(item => item.status === 'pending' && item.file.data === state.currentImage?.data ? { ...item, mask: action.payload ?? undefined } : item);
+        return { ...state, mask: action.payload, batchQueue };
+    }
+    case "ENHANCE_START": return { ...state, isLoading: true, enhanceProgress: null, enhancedImage: null, enhancedBase: null, activeItemId: null, refinement: null, candidates: [] };
+    case "ENHANCE_SUCCESS": return { ...state, isLoading: false, enhancedImage: action.payload.image, enhancedBase: action.payload.base ?? null, currentPrompt: action.payload.prompt, activeItemId: action.payload.id ?? null };
+    case "ENHANCE_FAILURE": return { ...state, isLoading: false };
+    case "SET_COMPARE": return { ...state, compareWith: action.payload };
+    case "SET_ENHANCE_PROGRESS": return { ...state, enhanceProgress: action.payload };
+    case "SET_VARIANT_COUNT": return { ...state, variantCount: Math.min(MAX_VARIANTS, Math.max(1, action.payload)) };
+    case "SET_INGEST_MAX_EDGE": return { ...state, ingestMaxEdge: INGEST_MAX_EDGE_OPTIONS.includes(action.payload) ? action.payload : DEFAULT_INGEST_MAX_EDGE };
+    case "CANDIDATES_SUCCESS": {
+        const [first] = action.payload.candidates;
+        return { ...state, isLoading: false, candidates: action.payload.candidates, enhancedImage: first.image, enhancedBase: first.base ?? null, currentPrompt: first.prompt, activeItemId: null };
+    }
+    case "SELECT_CANDIDATE": {
+        const candidate = state.candidates.find(c => c.id === action.payload.id);
+        if (!candidate) return state;
+        return { ...state, enhancedImage: candidate.image, enhancedBase: candidate.base ?? null, currentPrompt: candidate.prompt, activeItemId: candidate.kept ? candidate.id : null, refinement: null };
+    }
+    case "MARK_CANDIDATES_KEPT": {
+        const ids = action.payload.ids;
+        const candidates = state.candidates.map(c => ids.includes(c.id) ? { ...c, kept: true } : c);
+        const active = candidates.find(c => c.image === state.enhancedImage);
+        return { ...state, candidates, activeItemId: active?.kept ? active.id : state.activeItemId };
+    }
+    case "DISCARD_CANDIDATES": {
+        const candidates = state.candidates.filter(c => !action.payload.ids.includes(c.id));
+        if (candidates.some(c => c.image === state.enhancedImage)) return { ...state, candidates };
+        const next = candidates[0];
+        return { ...state, candidates, enhancedImage: next?.image ?? null, enhancedBase: next?.base ?? null, activeItemId: next?.kept ? next.id : null, refinement: null };
+    }
+    case "REFINE_START": return { ...state, isLoading: true };
+    case "REFINE_SUCCESS": {
+        const { thread } = action.payload;
+        return { ...state, isLoading: false, refinement: thread, enhancedImage: activeRefinementImage(thread), enhancedBase: null };
+    }
+    case "REFINE_FAILURE": return { ...state, isLoading: false };
+    case "SELECT_REFINEMENT": {
+        if (!state.refinement) return state;
+        const thread = { ...state.refinement, active: action.payload.index };
+        return { ...state, refinement: thread, enhancedImage: activeRefinementImage(thread), enhancedBase: null };
+    }
+    case "SHOW_TOAST": return { ...state, toast: { id: Date.now(), ...action.payload } };
+    case "HIDE_TOAST": return { ...state, toast: null };
+    case "RESET_STATE": return { ...initialState, currentImage: state.currentImage, activeProvider: state.activeProvider, variantCount: state.variantCount, activeModel: state.activeModel, customModels: state.customModels, promptTemplates: state.promptTemplates, userPresets: state.userPresets, showBuiltInPresets: state.showBuiltInPresets, exportProfiles: state.exportProfiles, qualityThresholds: state.qualityThresholds, ingestMaxEdge: state.ingestMaxEdge, batchQueue: state.batchQueue, batchPaused: state.batchPaused, batchConcurrency: state.batchConcurrency, enhancedLibrary: state.enhancedLibrary,
+      usageLog: state.usageLog, priceTable: state.priceTable, usageBudgets: state.usageBudgets, usageClient: state.usageClient, resultCache: state.resultCache,
+      savedHistories: state.savedHistories, ...pushHistory(state, initialToolStates, "Reset all tools") };
+    // Restored queues start paused so reopening work never sends requests on its own.
+    case "RESTORE_WORKSPACE": return { ...state, ...action.payload, candidates: [], compareWith: null, enhanceProgress: null, isLoading: false,
+      batchPaused: action.payload.batchQueue.some(item => item.status === 'pending') };
+    case "TOGGLE_BUILTIN_PRESETS": return { ...state, showBuiltInPresets: !state.showBuiltInPresets };
+    case "SET_PROVIDER": return { ...state, activeProvider: action.payload };
+    case "SET_MODEL": return { ...state, activeModel: action.payload };
+    // A custom model's list price becomes its price table entry; it can still be edited there like any other.
+    case "SAVE_MODEL": return { ...state, customModels: [...state.customModels.filter(m => m.id !== action.payload.id), action.payload],
+      priceTable: { ...state.priceTable, [action.payload.id]: action.payload.pricing },
+      activeModel: state.activeModel === action.payload.id && !action.payload.imageOutput ? DEFAULT_MODEL : state.activeModel };
+    case "DELETE_MODEL": return { ...state, customModels: state.customModels.filter(m => m.id !== action.payload.id),
+      activeModel: state.activeModel === action.payload.id ? DEFAULT_MODEL : state.activeModel };
+    case "LOAD_MODELS": return { ...state, customModels: action.payload };
+    case "SAVE_PRESET": return { ...state, userPresets: [...state.userPresets, action.payload.preset] };
+    case "LOAD_PRESET":
+      return { ...state, promptTemplates: action.payload.promptTemplates ?? {}, activeModel: action.payload.model ?? state.activeModel,
+        ...pushHistory(state, action.payload.tools, action.payload.name ? `Loaded preset ${action.payload.name}` : "Loaded preset") };
+    case "SET_PROMPT_TEMPLATES": return { ...state, promptTemplates: action.payload };
+    case "SET_QUALITY_THRESHOLDS": return { ...state, qualityThresholds: action.payload };
+    case "SAVE_EXPORT_PROFILE": return { ...state, exportProfiles: [...state.exportProfiles.filter(p => p.id !== action.payload.id), action.payload] };
+    case "DELETE_EXPORT_PROFILE": return { ...state, exportProfiles: state.exportProfiles.filter(p => p.id !== action.payload.id) };
+    case "LOAD_EXPORT_PROFILES": return { ...state, exportProfiles: action.payload };
+    case "DELETE_PRESET": return { ...state, userPresets: state.userPresets.filter(p => p.id !== action.payload.id) };
+    case "RENAME_PRESET": return { ...state, userPresets: state.userPresets.map(p => p.id === action.payload.id ? { ...p, name: action.payload.name } : p) };
+    case "SET_PRESET_MODEL": return { ...state, userPresets: state.userPresets.map(p => p.id === action.payload.id ? { ...p, model: action.payload.model } : p) };
+    case "IMPORT_PRESETS": {
+      const incomingPresets = action.payload.presets.filter(p => p.id && p.name && p.tools && !p.isBuiltIn);
+      const updatedPresets = [...state.userPresets];
+      incomingPresets.forEach(p => { if (!updatedPresets.some(up => up.id === p.id)) { updatedPresets.push(p); } });
+      return { ...state, userPresets: updatedPresets };
+    }
+    case "ADD_TO_BATCH": {
+        const specs = "items" in action.payload ? action.payload.items : action.payload.files.map(file => ({ file, preset: state.tools, promptTemplates: state.promptTemplates }));
+        const newItems: BatchItem[] = specs.map(spec => ({
+            ...spec, id: `${spec.file.name}-${Date.now()}-${Math.random()}`, status: 'pending'
+        }));
+        return { ...state, batchQueue: [...state.batchQueue, ...newItems] };
+    }
+    case "UPDATE_BATCH_ITEM": return { ...state, batchQueue: state.batchQueue.map(item => item.id === action.payload.id ? { ...item, ...action.payload } : item) };
+    case "CLEAR_BATCH": return { ...state, batchQueue: [] };
+    case "RETRY_FAILED_BATCH": return { ...state, batchQueue: state.batchQueue.map(item => item.status === 'error' ? { ...item, status: 'pending', error: undefined, failure: undefined, attempts: 0 } : item) };
+    case "SET_BATCH_PAUSED": return { ...state, batchPaused: action.payload };
+    case "SET_BATCH_CONCURRENCY": return { ...state, batchConcurrency: Math.min(BATCH_MAX_CONCURRENCY, Math.max(1, action.payload)) };
+    case "APPLY_PRESET_TO_BATCH": return { ...state, batchQueue: state.batchQueue.map(item => item.status === 'pending' ? { ...item, preset: action.payload.tools, promptTemplates: action.payload.promptTemplates, presetName: action.payload.name, model: action.payload.model } : item) };
+    case "SET_ENHANCED_IMAGE": return { ...state, enhancedImage: action.payload, enhancedBase: null, activeItemId: null, refinement: null, candidates: [] };
+    case "REGRADE_ENHANCED_IMAGE": return { ...state, enhancedImage: action.payload };
+    case "ADD_TO_LIBRARY": return { ...state, enhancedLibrary: [action.payload.entry, ...state.enhancedLibrary.filter(item => item.id !== action.payload.entry.id)] };
+    case "REMOVE_FROM_LIBRARY": return { ...state, enhancedLibrary: state.enhancedLibrary.filter(item => item.id !== action.payload.id) };
+    case "CLEAR_LIBRARY": return { ...state, enhancedLibrary: [] };
+    case "LOAD_LIBRARY": return { ...state, enhancedLibrary: action.payload.library };
+    case "ADD_USAGE_RECORD": return { ...state, usageLog: [...state.usageLog, action.payload] };
+    case "LOAD_USAGE_LOG": return { ...state, usageLog: action.payload };
+    case "CLEAR_USAGE_LOG": return { ...state, usageLog: [] };
+    case "SET_PRICE_TABLE": return { ...state, priceTable: action.payload };
+    case "SET_USAGE_BUDGETS": return { ...state, usageBudgets: action.payload };
+    case "SET_USAGE_CLIENT": return { ...state, usageClient: action.payload };
+    case "SET_RESULT_CACHE": return { ...state, resultCache: action.payload };
+    default: return state;
+  }
+};
+
+const AppContext = createContext<{ state: AppState; dispatch: React.Dispatch<Action> } | undefined>(undefined);
+const AppProvider = ({ children }: { children: React.ReactNode }) => {
+  const [state, dispatch] = useReducer(appReducer, initialState);
+  return <AppContext.Provider value={{ state, dispatch }}>{children}</AppContext.Provider>;
+};
+const useAppContext = () => {
+  const ctx = useContext(AppContext);
+  if (!ctx) throw new Error("useAppContext must be used within an AppProvider");
+  return ctx;
+};
+
+/* ---------- presets ---------- */
+const BUILT_IN_PRESETS: Readonly<Preset[]> = [
+    {
+        id: 'builtin_linkedin', name: 'LinkedIn Clean', isBuiltIn: true,
+        tools: { ...initialToolStates,
+            superResolution: { ...initialToolStates.superResolution, enabled: true, upscale: '2x' },
+            colorTone: { ...initialToolStates.colorTone, enabled: true, exposure: 1, contrast: 1 },
+            facialRetouch: { ...initialToolStates.facialRetouch, enabled: true, intensity: 'low', eyeEnhance: true, teethWhiten: true },
+            distractions: { enabled: true, list: 'minor lint on collar, stray hairs' },
+        }
+    },
+    {
+        id: 'builtin_studio', name: 'Studio Neutral', isBuiltIn: true,
+        tools: { ...initialToolStates,
+            superResolution: { ...initialToolStates.superResolution, enabled: true, upscale: '2x' },
+            colorTone: { ...initialToolStates.colorTone, enabled: true },
+            facialRetouch: { ...initialToolStates.facialRetouch, enabled: true, intensity: 'low' },
+            background: { ...initialToolStates.background, enabled: true, mode: 'solid', solidColor: '#e0e0e0' }
+        }
+    },
+    {
+        id: 'builtin_warm', name: 'Soft Warm', isBuiltIn: true,
+        tools: { ...initialToolStates,
+            superResolution: { ...initialToolStates.superResolution, enabled: true, upscale: '2x' },
+            colorTone: { ...initialToolStates.colorTone, enabled: true, temp: 2, vibrance: 2, skinTone: 'slightly warm' },
+            facialRetouch: { ...initialToolStates.facialRetouch, enabled: true, intensity: 'low' },
+        }
+    }
+];
+
+/* ---------- preset schema ---------- */
+// v1: unversioned files from older builds (bare preset arrays, recipes without schemaVersion). v2: adds colorTone.mode.
+// v3: pixel crop (crop.mode/stage/rect/angle); older presets keep prompt-based cropping.
+// v4: superResolution.tiled; older presets keep the single-request upscale.
+const PRESET_SCHEMA_VERSION = 4;
+
+type PresetFile = { schemaVersion: number; presets: Preset[] };
+type PresetImport = { presets: Preset[]; errors: string[] };
+
+// Option values older files may hold that are no longer options: UI labels typed into hand-written recipes and removed levels.
+// Keys are lower-cased; values are the current option they became.
+const LEGACY_TOOL_VALUES: Record<string, Record<string, string>> = {
+  "superResolution.upscale": { "8x (max)": "8x" },
+  "colorTone.skinTone": { "warm": "slightly warm" },
+  "facialRetouch.intensity": { "high": "medium" },
+  "preserveDetails.strength": { "low": "medium" },
+  "hairStyling.mode": { "keep original": "keep", "change color": "color", "custom style": "custom" },
+  "background.mode": { "keep original": "keep", "solid color": "solid", "blur/bokeh": "blur", "bokeh": "blur" },
+  "crop.aspectRatio": { "1:1 (square)": "1:1", "square": "1:1", "4:5 (portrait)": "4:5", "16:9 (widescreen)": "16:9" },
+};
+
+// Maps option values that differ from a current option only by case or are listed in LEGACY_TOOL_VALUES; anything else is left for validation to report.
+const mapLegacyValues = (tools: Record<string, unknown>) => Object.fromEntries(Object.entries(tools).map(([group, settings]) => [group, !isRecord(settings) ? settings :
+  Object.fromEntries(Object.entries(settings).map(([field, value]) => {
+    const options = TOOL_OPTIONS[`${group}.${field}`];
+    if (!options || typeof value !== "string" || options.includes(value)) return [field, value];
+    const key = value.trim().toLowerCase();
+    return [field, options.includes(key) ? key : LEGACY_TOOL_VALUES[`${group}.${field}`]?.[key] ?? value];
+  }))]));
+
+// TOOL_MIGRATIONS[n] upgrades raw tools from version n to n + 1. Steps must be safe to re-run on newer data.
+const TOOL_MIGRATIONS: Record<number, (tools: Record<string, unknown>) => Record<string, unknown>> = {
+  1: (raw) => {
+    const tools = mapLegacyValues(raw);
+    return isRecord(tools.colorTone) ? { ...tools, colorTone: { mode: "prompt", ...tools.colorTone } } : tools;
+  },
+  2: (tools) => isRecord(tools.crop) ? { ...tools, crop: { mode: "prompt", ...tools.crop } } : tools,
+  3: (tools) => {
+    const sr = tools.superResolution ?? {};
+    return isRecord(sr) ? { ...tools, superResolution: { tiled: false, ...sr } } : tools;
+  },
+};
+
+const TOOL_OPTIONS: Record<string, readonly string[]> = {
+  "superResolution.upscale": ["2x", "4x", "8x"],
+  "colorTone.whiteBalance": ["auto", "custom"],
+  "colorTone.skinTone": ["neutral", "slightly warm"],
+  "colorTone.mode": ["prompt", "local", "both"],
+  "facialRetouch.intensity": ["low", "medium"],
+  "preserveDetails.strength": ["medium", "high"],
+  "hairStyling.mode": ["keep", "color", "custom"],
+  "background.mode": ["keep", "solid", "blur", "custom"],
+  "crop.aspectRatio": ["free", "original", "1:1", "4:5", "16:9", "custom"],
+  "crop.mode": ["pixels", "prompt"],
+  "crop.stage": ["before", "after"],
+};
+
+// Sliders are -10..10 unless listed here.
+const TOOL_RANGES: Record<string, [number, number]> = {
+  "noiseAndOptics.lumaNoise": [0, 10], "noiseAndOptics.chromaNoise": [0, 10], "noiseAndOptics.caFix": [0, 10],
+  "crop.x": [0, 1], "crop.y": [0, 1], "crop.w": [0, 1], "crop.h": [0, 1], "crop.angle": [-45, 45], "crop.ratioW": [1, 100], "crop.ratioH": [1, 100],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Migrates raw tools to the current schema, fills missing fields from initialToolStates and reports invalid ones.
+// Invalid fields fall back to their defaults in the returned tools.
+function validateTools(raw: unknown, version: number, path = "tools"): { tools: ToolStates; errors: string[] } {
+  const errors: string[] = [];
+  const tools = JSON.parse(JSON.stringify(initialToolStates)) as Record<string, Record<string, unknown>>;
+  if (!isRecord(raw)) return { tools: tools as ToolStates, errors: [`${path}: expected an object`] };
+  let migrated = raw;
+  for (let v = version; v < PRESET_SCHEMA_VERSION; v++) migrated = TOOL_MIGRATIONS[v]?.(migrated) ?? migrated;
+
+  (Object.keys(initialToolStates) as (keyof ToolStates)[]).forEach(group => {
+    const source = migrated[group];
+    if (source === undefined) return;
+    if (!isRecord(source)) { errors.push(`${path}.${group}: expected an object`); return; }
+    Object.entries(initialToolStates[group]).forEach(([field, fallback]) => {
+      const key = `${group}.${field}`, value = source[field];
+      if (value === undefined) return;
+      const options = TOOL_OPTIONS[key];
+      const [min, max] = TOOL_RANGES[key] ?? [-10, 10];
+      if (typeof value !== typeof fallback) errors.push(`${path}.${key}: expected ${typeof fallback}, got ${JSON.stringify(value)}`);
+      else if (options && typeof value === "string" && !options.includes(value)) errors.push(`${path}.${key}: "${value}" is not one of ${options.join(", ")}`);
+      else if (typeof value === "number" && !(value >= min && value <= max)) errors.push(`${path}.${key}: ${value} is outside ${min}..${max}`);
+      else tools[group][field] = value;
+    });
+  });
+  return { tools: tools as ToolStates, errors };
+}
+
+// Stored records (library, batch items) carry no version; the migrations are idempotent, so start from v1.
+const normalizeTools = (raw: unknown) => validateTools(raw, 1).tools;
+
+function validatePromptTemplates(raw: unknown, path = "promptTemplates"): { templates: PromptTemplates; errors: string[] } {
+  if (raw === undefined) return { templates: {}, errors: [] };
+  if (!isRecord(raw)) return { templates: {}, errors: [`${path}: expected an object`] };
+  const templates: PromptTemplates = {}, errors: string[] = [];
+  Object.entries(raw).forEach(([key, value]) => {
+    if (!(key in DEFAULT_PROMPT_TEMPLATES)) errors.push(`${path}.${key}: unknown prompt section`);
+    else if (typeof value !== "string") errors.push(`${path}.${key}: expected a string`);
+    else templates[key as PromptTemplateKey] = value;
+  });
+  return { templates, errors };
+}
+
+const serializePresets = (presets: Preset[]): PresetFile => ({ schemaVersion: PRESET_SCHEMA_VERSION, presets });
+
+// Accepts a preset file (current or legacy bare array) or a recipe JSON, which becomes a single preset.
+// Presets with any invalid field are rejected rather than silently repaired.
+function parsePresetFile(data: unknown, recipeName = "Imported recipe"): PresetImport {
+  let schemaVersion: unknown = 1, items: unknown[];
+  if (Array.isArray(data)) items = data;
+  else if (isRecord(data) && Array.isArray(data.presets)) { schemaVersion = data.schemaVersion ?? 1; items = data.presets; }
+  else if (isRecord(data) && isRecord(data.tools)) { schemaVersion = data.schemaVersion ?? 1; items = [{ id: `user_${Date.now()}`, name: recipeName, tools: data.tools }]; }
+  else return { presets: [], errors: ["Unrecognised file: expected a preset list or a recipe"] };
+  const version = schemaVersion;
+  if (typeof version !== "number") return { presets: [], errors: ["schemaVersion: expected a number"] };
+  if (version > PRESET_SCHEMA_VERSION) return { presets: [], errors: [`schemaVersion ${version} is newer than this app supports (${PRESET_SCHEMA_VERSION})`] };
+
+  const presets: Preset[] = [], errors: string[] = [];
+  items.forEach((item, i) => {
+    if (!isRecord(item)) { errors.push(`#${i + 1}: expected an object`); return; }
+    if (item.isBuiltIn) return;
+    const id = typeof item.id === "string" ? item.id : "", name = typeof item.name === "string" ? item.name : "", model = item.model;
+    const label = name.trim() ? `"${name}"` : `#${i + 1}`;
+    const itemErrors: string[] = [];
+    if (!id) itemErrors.push(`${label}.id: expected a non-empty string`);
+    if (!name.trim()) itemErrors.push(`${label}.name: expected a non-empty string`);
+    if (model !== undefined && (typeof model !== "string" || !model)) itemErrors.push(`${label}.model: expected a non-empty string`);
+    const { tools, errors: toolErrors } = validateTools(item.tools, version, `${label}.tools`);
+    const { templates, errors: templateErrors } = validatePromptTemplates(item.promptTemplates, `${label}.promptTemplates`);
+    itemErrors.push(...toolErrors, ...templateErrors);
+    if (itemErrors.length > 0) errors.push(...itemErrors);
+    else presets.push({ id, name, tools, ...(Object.keys(templates).length > 0 && { promptTemplates: templates }), ...(typeof model === "string" && model && { model }) });
+  });
+  return { presets, errors };
+}
+
+/* ---------- batch manifests ---------- */
+// One manifest line: `file` is a file name or a glob (* and ?); other columns are "group.field" tool overrides.
+type ManifestRow = { label: string; file: string; preset?: string; model?: string; output?: string; overrides: Record<string, unknown> };
+// `tools` is set for files ready to queue; `problem` explains why a file would be skipped.
+type ManifestMatch<T> = { file: T; row?: ManifestRow; tools?: ToolStates; presetName?: string; promptTemplates?: PromptTemplates; model?: ModelName; outputName?: string; problem?: string };
+type ManifestPlan<T> = { matches: ManifestMatch<T>[]; errors: string[]; warnings: string[] };
+type BatchItemSettings = Pick<BatchItem, "preset" | "presetName" | "promptTemplates" | "outputName" | "model">;
+
+const MANIFEST_COLUMNS = ["file", "preset", "model", "output"];
+
+// RFC 4180: quoted fields may hold commas, newlines and "" escapes.
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [], field = "", quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") { row.push(field); field = ""; }
+    else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field); rows.push(row); row = []; field = "";
+    } else field += c;
+  }
+  if (field || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+const flattenSettings = (value: Record<string, unknown>, prefix = ""): Record<string, unknown> =>
+  Object.entries(value).reduce<Record<string, unknown>>((out, [key, v]) =>
+    isRecord(v) ? { ...out, ...flattenSettings(v, `${prefix}${key}.`) } : { ...out, [`${prefix}${key}`]: v }, {});
+
+// Accepts CSV with a header row, or JSON: an array (or { items }) of { file, preset?, model?, output?, overrides? }.
+function parseManifest(text: string, fileName: string): { rows: ManifestRow[]; errors: string[] } {
+  const source = text.replace(/^\uFEFF/, "");
+  const rows: ManifestRow[] = [], errors: string[] = [];
+  const cell = (value: unknown) => typeof value === "string" && value.trim() ? value.trim() : undefined;
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(source)) {
+    let data: unknown;
+    try { data = JSON.parse(source); } catch { return { rows, errors: ["Manifest is not valid JSON."] }; }
+    const items = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.items) ? data.items : null;
+    if (!items) return { rows, errors: ["Expected an array of items or an object with an \"items\" array."] };
+    items.forEach((item, i) => {
+      const label = `item ${i + 1}`;
+      if (!isRecord(item) || !cell(item.file)) { errors.push(`${label}: "file" must be a non-empty string`); return; }
+      const overrides = item.overrides ?? {};
+      if (!isRecord(overrides)) { errors.push(`${label}: "overrides" must be an object`); return; }
+      rows.push({ label, file: cell(item.file)!, preset: cell(item.preset), model: cell(item.model), output: cell(item.output), overrides: flattenSettings(overrides) });
+    });
+    return { rows, errors };
+  }
+  const [header, ...lines] = parseCsv(source);
+  const columns = (header ?? []).map(c => c.trim());
+  const fileColumn = columns.findIndex(c => c.toLowerCase() === "file");
+  if (fileColumn < 0) return { rows, errors: ["The CSV header needs a \"file\" column."] };
+  lines.forEach((line, i) => {
+    const label = `row ${i + 2}`;
+    const row: ManifestRow = { label, file: cell(line[fileColumn]) ?? "", overrides: {} };
+    columns.forEach((column, c) => {
+      const value = cell(line[c]);
+      const name = column.toLowerCase();
+      if (value === undefined || c === fileColumn) return;
+      if (name === "preset") row.preset = value;
+      else if (name === "model") row.model = value;
+      else if (name === "output") row.output = value;
+      else row.overrides[column] = value;
+    });
+    if (!row.file) errors.push(`${label}: "file" is empty`);
+    else rows.push(row);
+  });
+  return { rows, errors };
+}
+
+const globToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".")}$`, "i");
+
+// CSV cells arrive as text; convert them to the type of the setting they override.
+function coerceSetting(value: unknown, fallback: unknown): unknown {
+  if (typeof value !== "string" || typeof fallback === "string") return value;
+  const text = value.trim().toLowerCase();
+  if (typeof fallback === "number") return text === "" || isNaN(Number(text)) ? value : Number(text);
+  if (["true", "yes", "on", "1"].includes(text)) return true;
+  if (["false", "no", "off", "0"].includes(text)) return false;
+  return value;
+}
+
+// Resolves each row's preset, model and overrides, then assigns every file to the first exact-name row, else the first matching glob.
+// Rows without a preset start from `baseTools` and `baseTemplates`. A row's model (id or label) beats the one pinned in its preset. Files in rows with errors are not queued, so nothing runs with settings other than the manifest's.
+function planManifest<T extends { name: string }>(rows: ManifestRow[], files: T[], presets: Readonly<Preset[]>, baseTools: ToolStates, baseTemplates: PromptTemplates,
+  models: Readonly<ModelInfo[]>): ManifestPlan<T> {
+  const errors: string[] = [], warnings: string[] = [];
+  const resolved = rows.map(row => {
+    const rowErrors: string[] = [];
+    const preset = row.preset ? presets.find(p => p.name.toLowerCase() === row.preset!.toLowerCase()) : undefined;
+    if (row.preset && !preset) rowErrors.push(`${row.label}: unknown preset "${row.preset}"`);
+    const model = row.model ? models.find(m => [m.id, m.label].some(name => name.toLowerCase() === row.model!.toLowerCase())) : undefined;
+    if (row.model && !model) rowErrors.push(`${row.label}: unknown model "${row.model}"`);
+    else if (model && !model.imageOutput) rowErrors.push(`${row.label}: ${model.label} does not return images`);
+    const merged = JSON.parse(JSON.stringify(preset?.tools ?? baseTools)) as Record<string, Record<string, unknown>>;
+    Object.entries(row.overrides).forEach(([key, value]) => {
+      const [group, field, ...rest] = key.split(".");
+      const defaults = (initialToolStates as Record<string, Record<string, unknown>>)[group];
+      if (!defaults || !field || rest.length > 0 || !(field in defaults)) { rowErrors.push(`${row.label}: unknown setting "${key}"`); return; }
+      merged[group][field] = coerceSetting(value, defaults[field]);
+      if (field !== "enabled" && merged[group].enabled === false && !(`${group}.enabled` in row.overrides)) warnings.push(`${row.label}: ${key} is set but ${TOOL_TITLES[group as keyof ToolStates]} is off`);
+    });
+    const { tools, errors: toolErrors } = validateTools(merged, PRESET_SCHEMA_VERSION, `${row.label}: tools`);
+    rowErrors.push(...toolErrors);
+    errors.push(...rowErrors);
+    const isGlob = /[*?]/.test(row.file);
+    return { row, tools, presetName: preset?.name, promptTemplates: preset ? preset.promptTemplates ?? {} : baseTemplates, model: model?.id ?? preset?.model, valid: rowErrors.length === 0, matches: isGlob ? globToRegExp(row.file) : null };
+  });
+
+  const used = new Set<ManifestRow>();
+  const matches = files.map((file): ManifestMatch<T> => {
+    const match = resolved.find(r => !r.matches && r.row.file.toLowerCase() === file.name.toLowerCase()) ?? resolved.find(r => r.matches?.test(file.name));
+    if (!match) return { file, problem: "No manifest row matches this file" };
+    used.add(match.row);
+    if (!match.valid) return { file, row: match.row, problem: `${match.row.label} has errors` };
+    return { file, row: match.row, tools: match.tools, presetName: match.presetName, promptTemplates: match.promptTemplates, model: match.model, outputName: match.row.output?.replace(/\.(png|jpe?g|webp)$/i, "") };
+  });
+  rows.filter(row => !used.has(row)).forEach(row => warnings.push(`${row.label}: "${row.file}" matched no selected file`));
+  return { matches, errors, warnings };
+}
+
+const describeManifestMatch = (match: ManifestMatch<unknown>, models: Readonly<ModelInfo[]>) =>
+  [match.presetName ?? "Current settings", match.model && modelLabel(match.model, models), Object.keys(match.row?.overrides ?? {}).length > 0 && `${Object.keys(match.row!.overrides).length} override(s)`, match.outputName && `→ ${match.outputName}`]
+    .filter(Boolean).join(" · ");
+
+/* ---------- color & tone pipeline ---------- */
+type ColorToneSettings = ToolStates["colorTone"];
+
+const usesLocalTone = (ct: ColorToneSettings) => ct.enabled && (ct.mode === "local" || ct.mode === "both");
+
+const srgbToLinear = (x: number) => x <= 0.04045 ? x / 12.92 : Math.pow((x + 0.055) / 1.055, 2.4);
+const linearToSrgb = (x: number) => x <= 0.0031308 ? x * 12.92 : 1.055 * Math.pow(x, 1 / 2.4) - 0.055;
+const clamp01 = (x: number) => Math.min(1, Math.max(0, x));
+const smoothstep = (a: number, b: number, x: number) => { const t = clamp01((x - a) / (b - a)); return t * t * (3 - 2 * t); };
+
+// Slider values are -10..10. Exposure spans ±1.5 EV, temp/tint are channel gains applied in linear light.
+function buildToneLut(ct: ColorToneSettings, gain: number): Uint8ClampedArray {
+  const lut = new Uint8ClampedArray(256);
+  const ev = Math.pow(2, ct.exposure * 0.15);
+  const contrast = 1 + ct.contrast * 0.05;
+  const hi = ct.highlights * 0.05, sh = ct.shadows * 0.05;
+  for (let v = 0; v < 256; v++) {
+    let x = linearToSrgb(clamp01(srgbToLinear(v / 255) * gain * ev));
+    x = 0.5 + (x - 0.5) * contrast;
+    const hw = smoothstep(0.5, 1, x), sw = 1 - smoothstep(0, 0.5, x);
+    x += hi * hw * (hi > 0 ? 1 - x : x);
+    x += sh * sw * (sh > 0 ? 1 - x : x);
+    lut[v] = Math.round(clamp01(x) * 255);
+  }
+  return lut;
+}
+
+function applyColorTone(data: Uint8ClampedArray, ct: ColorToneSettings) {
+  const custom = ct.whiteBalance === "custom";
+  const lutR = buildToneLut(ct, custom ? 1 + ct.temp * 0.03 : 1);
+  const lutG = buildToneLut(ct, custom ? 1 - ct.tint * 0.03 : 1);
+  const lutB = buildToneLut(ct, custom ? 1 - ct.temp * 0.03 : 1);
+  const sat = 1 + ct.saturation * 0.1, vib = ct.vibrance * 0.1;
+  const chroma = sat !== 1 || vib !== 0;
+  for (let i = 0; i < data.length; i += 4) {
+    let r = lutR[data[i]], g = lutG[data[i + 1]], b = lutB[data[i + 2]];
+    if (chroma) {
+      const l = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      const current = (Math.max(r, g, b) - Math.min(r, g, b)) / 255;
+      const f = sat * (1 + vib * (1 - current));
+      r = l + (r - l) * f; g = l + (g - l) * f; b = l + (b - l) * f;
+    }
+    data[i] = r; data[i + 1] = g; data[i + 2] = b;
+  }
+}
+
+async function applyColorToneToImage(src: string, ct: ColorToneSettings): Promise<string> {
+  const img = await loadImage(src);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(img, 0, 0);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyColorTone(pixels.data, ct);
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL("image/png");
+}
+
+/* ---------- crop & straighten ---------- */
+type CropSettings = ToolStates["crop"];
+// Pixel rect on the straightened image, which keeps the source's width and height.
+type CropRect = { x: number; y: number; w: number; h: number };
+
+const usesPixelCrop = (c: CropSettings) => c.enabled && c.mode === "pixels";
+
+function cropAspect(c: CropSettings, width: number, height: number): number | null {
+  if (c.aspectRatio === "free") return null;
+  if (c.aspectRatio === "original") return width / height;
+  if (c.aspectRatio === "custom") return c.ratioW / c.ratioH;
+  const [w, h] = c.aspectRatio.split(":").map(Number);
+  return w / h;
+}
+
+// True when every corner of the rect maps back inside the source, i.e. no empty rotated corners get cropped in.
+function insideRotated(r: CropRect, angle: number, width: number, height: number): boolean {
+  const rad = -angle * Math.PI / 180, cos = Math.cos(rad), sin = Math.sin(rad), cx = width / 2, cy = height / 2;
+  return [[r.x, r.y], [r.x + r.w, r.y], [r.x, r.y + r.h], [r.x + r.w, r.y + r.h]].every(([px, py]) => {
+    const dx = px - cx, dy = py - cy;
+    const x = cx + dx * cos - dy * sin, y = cy + dx * sin + dy * cos;
+    return x >= -0.5 && x <= width + 0.5 && y >= -0.5 && y <= height + 0.5;
+  });
+}
+
+// Turns the stored rect into pixels: enforces the aspect ratio, keeps it in frame and shrinks it about its centre until it clears the rotated corners.
+function resolveCropRect(c: CropSettings, width: number, height: number): CropRect {
+  let w = (clamp01(c.w) || 1) * width, h = (clamp01(c.h) || 1) * height;
+  let cx = (clamp01(c.x) + (clamp01(c.w) || 1) / 2) * width, cy = (clamp01(c.y) + (clamp01(c.h) || 1) / 2) * height;
+  const aspect = cropAspect(c, width, height);
+  if (aspect) { if (w / h > aspect) w = h * aspect; else h = w / aspect; }
+  cx = Math.min(Math.max(cx, w / 2), width - w / 2);
+  cy = Math.min(Math.max(cy, h / 2), height - h / 2);
+  const at = (scale: number): CropRect => ({ x: cx - w * scale / 2, y: cy - h * scale / 2, w: w * scale, h: h * scale });
+  if (c.angle !== 0 && !insideRotated(at(1), c.angle, width, height)) {
+    if (!insideRotated(at(0.01), c.angle, width, height)) { cx = width / 2; cy = height / 2; }
+    let lo = 0, hi = 1;
+    for (let i = 0; i < 20; i++) { const mid = (lo + hi) / 2; if (insideRotated(at(mid), c.angle, width, height)) lo = mid; else hi = mid; }
+    const r = at(lo);
+    return { x: Math.round(r.x), y: Math.round(r.y), w: Math.max(1, Math.floor(r.w)), h: Math.max(1, Math.floor(r.h)) };
+  }
+  const r = at(1);
+  return { x: Math.round(r.x), y: Math.round(r.y), w: Math.max(1, Math.round(r.w)), h: Math.max(1, Math.round(r.h)) };
+}
+
+// Deterministic crop: rotates about the image centre by `angle`, then cuts the resolved rect. Normalised coordinates let the same settings apply to the upscaled result.
+async function applyCropToImage(src: string, c: CropSettings): Promise<string> {
+  const img = await loadImage(src);
+  const r = resolveCropRect(c, img.width, img.height);
+  const canvas = document.createElement("canvas");
+  canvas.width = r.w;
+  canvas.height = r.h;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.imageSmoothingQuality = "high";
+  ctx.translate(img.width / 2 - r.x, img.height / 2 - r.y);
+  ctx.rotate(c.angle * Math.PI / 180);
+  ctx.drawImage(img, -img.width / 2, -img.height / 2);
+  return canvas.toDataURL("image/png");
+}
+
+/* ---------- model registry ---------- */
+// Custom models live in state, so callers pass the full list rather than reading it from here.
+const allModels = (custom: ModelInfo[]): ModelInfo[] => [...BUILT_IN_MODELS, ...custom];
+const findModel = (id: ModelName, models: Readonly<ModelInfo[]>) => models.find(m => m.id === id);
+const modelLabel = (id: ModelName, models: Readonly<ModelInfo[]>) => findModel(id, models)?.label ?? id;
+const isModelComparison = (candidates: Candidate[]) => new Set(candidates.map(c => c.model)).size > 1;
+
+// Size of a data URL's payload as sent inline, i.e. still base64-encoded.
+const inlineBytes = (dataUrl: string) => dataUrl.length - dataUrl.indexOf(",") - 1;
+
+// Rejects requests the model cannot serve before they are sent, rather than paying for an error.
+function checkModelInput(id: ModelName, models: Readonly<ModelInfo[]>, images: string[]) {
+  const model = findModel(id, models);
+  if (!model) throw new ProviderError("model", `Unknown model "${id}". Add it under Models first.`);
+  if (!model.imageOutput) throw new ProviderError("model", `${model.label} does not return images.`);
+  if (images.length > 1 && !model.multiImageInput) throw new ProviderError("model", `${model.label} takes one image per request, so masks and refinements are unavailable.`);
+  const bytes = images.reduce((sum, data) => sum + inlineBytes(data), 0);
+  if (bytes > model.maxInputBytes) throw new ProviderError("model", `The request carries ${formatBytes(bytes)} of image data; ${model.label} accepts at most ${formatBytes(model.maxInputBytes)}.`);
+}
+
+// Validates one custom model; built-in ids cannot be redefined.
+function validateModel(raw: unknown, path = "model"): { model?: ModelInfo; errors: string[] } {
+  if (!isRecord(raw)) return { errors: [`${path}: expected an object`] };
+  const errors: string[] = [];
+  const id = typeof raw.id === "string" ? raw.id.trim() : "";
+  const { imageOutput, multiImageInput, maxInputBytes } = raw;
+  const { inputPerMillion, outputPerMillion } = isRecord(raw.pricing) ? raw.pricing : {};
+  const price = (value: unknown): value is number => typeof value === "number" && value >= 0;
+  if (!id) errors.push(`${path}.id: expected a non-empty string`);
+  else if (BUILT_IN_MODELS.some(m => m.id === id)) errors.push(`${path}.id: "${id}" is a built-in model`);
+  if (typeof imageOutput !== "boolean") errors.push(`${path}.imageOutput: expected a boolean`);
+  if (typeof multiImageInput !== "boolean") errors.push(`${path}.multiImageInput: expected a boolean`);
+  if (!(typeof maxInputBytes === "number" && maxInputBytes > 0)) errors.push(`${path}.maxInputBytes: expected a positive number`);
+  if (!price(inputPerMillion) || !price(outputPerMillion)) errors.push(`${path}.pricing: expected inputPerMillion and outputPerMillion of 0 or more`);
+  // The checks are repeated so the fields narrow to their types.
+  if (errors.length > 0 || typeof imageOutput !== "boolean" || typeof multiImageInput !== "boolean" || typeof maxInputBytes !== "number" || !price(inputPerMillion) || !price(outputPerMillion)) return { errors };
+  const label = typeof raw.label === "string" && raw.label.trim() ? raw.label.trim() : id;
+  return { model: { id, label, imageOutput, multiImageInput, maxInputBytes, pricing: { inputPerMillion, outputPerMillion } }, errors };
+}
+
+function parseModels(raw: unknown): { models: ModelInfo[]; errors: string[] } {
+  if (!Array.isArray(raw)) return { models: [], errors: ["Expected an array of models"] };
+  const models: ModelInfo[] = [], errors: string[] = [];
+  raw.forEach((item, i) => {
+    const { model, errors: modelErrors } = validateModel(item, `#${i + 1}`);
+    if (model && !models.some(m => m.id === model.id)) models.push(model);
+    errors.push(...modelErrors);
+  });
+  return { models, errors };
+}
+
+/* ---------- prompt + AI ---------- */
+const DEFAULT_PROMPT_TEMPLATES: Readonly<Record<PromptTemplateKey, string>> = {
+  header: "Enhance this PORTRAIT while preserving identity and realism.",
+  superResolution: "SUPER RESOLUTION: Perform a high-quality {{superResolution.upscale}} super-resolution upscale, scaling the image's pixel dimensions by {{superResolution.upscale}}. The primary goal is to reconstruct and synthesize photorealistic fine details. Enhance textures like skin pores, individual hair strands, and fabric weaves with exceptional clarity. The final image must be sharp and artifact-free. Do not simply enlarge and smooth the image; new, believable detail must be generated.",
+  superResolutionTile: "SUPER RESOLUTION (TILE): This is one tile cut from a larger portrait. Upscale it {{superResolution.upscale}} and reconstruct photorealistic fine detail such as skin pores, hair strands and fabric weave. Do NOT change composition, framing, colors, exposure, identity or any content; do not add or remove anything. Keep edges continuous so the tile can be stitched back seamlessly.\nOUTPUT: the same tile at higher resolution, PNG (sRGB).",
+  colorTone: "COLOR & EXPOSURE: {{colorTone.wb}}; exposure {{colorTone.exposure}}; contrast {{colorTone.contrast}}; highlights/shadows recover; vibrance {{colorTone.vibrance}}; saturation {{colorTone.saturation}}; skin tone {{colorTone.skinTone}}.",
+  colorToneLocal: "COLOR & EXPOSURE: keep the original exposure, white balance and color grading (tonal adjustments are applied separately); skin tone {{colorTone.skinTone}}.",
+  facialRetouch: "FACIAL RETOUCH (SUBTLE): intensity {{facialRetouch.intensity}}; eyes {{facialRetouch.eyes}}; teeth {{facialRetouch.teeth}}; keep pores/texture; reduce shine; soften fine wrinkles/under-eye; reduce glasses glare; DO NOT change identity/age/facial structure/expression.",
+  preserveDetails: "PRESERVE DETAILS ({{preserveDetails.STRENGTH}}): Meticulously preserve unique, defining facial features like moles, scars, freckles, and birthmarks. Do not remove, soften, or alter them. Ensure original skin and fabric textures are fully maintained.",
+  hairStyling: "HAIR STYLING: {{hairStyling.summary}}; maintain realistic texture/shine; precise masking; no color bleed.",
+  background: "BACKGROUND: {{background.summary}}; hair-safe matting; realistic shadows; no halos/spill.",
+  crop: "CROP/ROTATE: aspect {{crop.aspectRatio}}; straightened; safe headroom; keep ears/hair.",
+  removal: "OBJECT REMOVAL: Carefully and seamlessly remove the following distractions: \"{{distractions.list}}\". Fill the area with realistic, context-aware content. The edit must be undetectable.",
+  removalMasked: "OBJECT REMOVAL (MASKED): Carefully and seamlessly remove {{distractions.target}} inside the white region of the mask image. Do not remove or alter anything outside the mask. Fill the area with realistic, context-aware content. The edit must be undetectable.",
+  noiseAndOptics: "NOISE & OPTICS CORRECTION: {{noiseAndOptics.corrections}}.",
+  footer: "CONSISTENCY: same intensity across faces; consistent skin tone.\nLIMITS: no style transfer; no makeup/clothing/body reshaping/new objects.\nOUTPUT: single high-res PNG (sRGB).",
+};
+
+const PROMPT_TEMPLATE_LABELS: Record<PromptTemplateKey, string> = {
+  header: "Header", superResolution: "Super Resolution", superResolutionTile: "Super Resolution (tiled pass)", colorTone: "Color & Tone", colorToneLocal: "Color & Tone (local grading)",
+  facialRetouch: "Facial Retouch", preserveDetails: "Preserve Details", hairStyling: "Hair Styling", background: "Background",
+  crop: "Crop", removal: "Object Removal", removalMasked: "Object Removal (masked)", noiseAndOptics: "Noise & Optics", footer: "Footer",
+};
+
+const TEMPLATE_VARIABLE = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// A removal mask only applies while Remove Distractions is on; otherwise it is neither sent nor mentioned in the prompt.
+const effectiveMask = (t: ToolStates, mask?: ImageMask) => mask?.scope === "removal" && !t.distractions.enabled ? undefined : mask;
+
+// Every ToolStates field as {{group.field}}, plus the derived phrases the built-in wording relies on.
+function promptVariables(t: ToolStates, mask?: ImageMask): Record<string, string> {
+  const vars: Record<string, string> = {};
+  (Object.keys(t) as (keyof ToolStates)[]).forEach(group => Object.entries(t[group]).forEach(([field, value]) => { vars[`${group}.${field}`] = String(value); }));
+  vars["colorTone.wb"] = `WB ${t.colorTone.whiteBalance}` + (t.colorTone.whiteBalance === "custom" ? ` (temp:${t.colorTone.temp}, tint:${t.colorTone.tint})` : "");
+  vars["facialRetouch.eyes"] = t.facialRetouch.eyeEnhance ? "on" : "off";
+  vars["facialRetouch.teeth"] = t.facialRetouch.teethWhiten ? "on" : "off";
+  vars["preserveDetails.STRENGTH"] = t.preserveDetails.strength.toUpperCase();
+  vars["hairStyling.summary"] = `mode: ${t.hairStyling.mode}` + (t.hairStyling.mode === "color" ? `, color: ${t.hairStyling.color}` : "")
+    + (t.hairStyling.mode === "custom" ? `, instruction: "${t.hairStyling.customInstruction}"` : "");
+  vars["background.summary"] = `mode: ${t.background.mode}` + (t.background.mode === "solid" ? `, color: ${t.background.solidColor}` : "")
+    + (t.background.mode === "custom" ? `, instruction: "${t.background.customInstruction}"` : "");
+  vars["distractions.list"] = t.distractions.list.trim();
+  vars["distractions.target"] = t.distractions.list.trim() ? `the following distractions: "${t.distractions.list.trim()}"` : "the distracting content";
+  const corrections = [];
+  if (t.noiseAndOptics.lumaNoise > 0) corrections.push(`luma noise reduction (${t.noiseAndOptics.lumaNoise}/10)`);
+  if (t.noiseAndOptics.chromaNoise > 0) corrections.push(`chroma noise reduction (${t.noiseAndOptics.chromaNoise}/10)`);
+  if (t.noiseAndOptics.caFix > 0) corrections.push(`chromatic aberration correction (${t.noiseAndOptics.caFix}/10)`);
+  if (t.noiseAndOptics.vignette !== 0) corrections.push(`vignette correction (${t.noiseAndOptics.vignette}/10)`);
+  if (t.noiseAndOptics.distortion !== 0) corrections.push(`lens distortion correction (${t.noiseAndOptics.distortion}/10)`);
+  vars["noiseAndOptics.corrections"] = corrections.join(", ");
+  vars["mask.scope"] = effectiveMask(t, mask)?.scope ?? "none";
+  return vars;
+}
+
+// Unknown placeholders are left in place so mistakes show up in the preview instead of vanishing.
+const renderTemplate = (template: string, vars: Record<string, string>) =>
+  template.replace(TEMPLATE_VARIABLE, (match, key: string) => vars[key] ?? match);
+
+const unknownTemplateVariables = (template: string, vars: Record<string, string>) =>
+  [...new Set([...template.matchAll(TEMPLATE_VARIABLE)].map(m => m[1]).filter(key => !(key in vars)))];
+
+const buildPrompt = (t: ToolStates, rawMask?: ImageMask, templates: PromptTemplates = {}): string => {
+  const mask = effectiveMask(t, rawMask);
+  const vars = promptVariables(t, mask);
+  const section = (key: PromptTemplateKey) => renderTemplate(templates[key] ?? DEFAULT_PROMPT_TEMPLATES[key], vars);
+  const ops: string[] = [];
+  if (t.superResolution.enabled) ops.push(section("superResolution"));
+  if (t.colorTone.enabled) ops.push(section(t.colorTone.mode === "local" ? "colorToneLocal" : "colorTone"));
+  if (t.facialRetouch.enabled) ops.push(section("facialRetouch"));
+  if (t.preserveDetails.enabled) ops.push(section("preserveDetails"));
+  if (t.hairStyling.enabled && t.hairStyling.mode !== 'keep') ops.push(section("hairStyling"));
+  if (t.background.enabled) ops.push(section("background"));
+  if (t.crop.enabled && t.crop.mode === "prompt") ops.push(section("crop"));
+  if (mask?.scope === "removal") ops.push(section("removalMasked"));
+  else if (t.distractions.enabled && t.distractions.list.trim()) ops.push(section("removal"));
+  if (t.noiseAndOptics.enabled && vars["noiseAndOptics.corrections"]) ops.push(section("noiseAndOptics"));
+  
+  const numberedOps = ops.map((op, i) => `${i + 1}) ${op}`).join("\n");
+
+  const maskNote = !mask ? "" : mask.scope === "all"
+    ? "\nMASK: The second image is a black-and-white mask of the first. Apply ALL operations ONLY inside the white region; pixels in the black region must remain unchanged.\n"
+    : "\nMASK: The second image is a black-and-white mask of the first, marking the region for OBJECT REMOVAL.\n";
+
+  return `${section("header")}
+${maskNote}
+ORDER OF OPERATIONS:
+${numberedOps}
+
+${section("footer")}`;
+};
+
+const buildRefinementPrompt = (instruction: string, history: string[]): string => {
+  const earlier = history.length ? `\nEARLIER FOLLOW-UPS (already applied, keep them): ${history.map((h, i) => `${i + 1}) ${h}`).join("; ")}.` : "";
+  return `Refine the image you just produced. Apply ONLY this follow-up change: "${instruction}".${earlier}
+
+KEEP: identity, age, facial structure, expression, composition, framing and every previous edit unchanged except where the follow-up requires.
+OUTPUT: single high-res PNG (sRGB).`;
+};
+
+const activeRefinementImage = (thread: RefinementThread) => thread.active < 0 ? thread.base : thread.turns[thread.active].image;
+
+// Appends a turn after the active one, dropping any turns that were reverted past.
+const appendRefinementTurn = (thread: RefinementThread | null, base: string, turn: RefinementTurn): RefinementThread => {
+  const current = thread ?? { base, turns: [], active: -1 };
+  const turns = [...current.turns.slice(0, current.active + 1), turn];
+  return { ...current, turns, active: turns.length - 1 };
+};
+
+// The SDK sets no timeout of its own, so every Gemini call is bounded here as well as by the caller's signal.
+const requestSignal = (signal?: AbortSignal) =>
+  signal ? AbortSignal.any([signal, AbortSignal.timeout(GEMINI_REQUEST_TIMEOUT_MS)]) : AbortSignal.timeout(GEMINI_REQUEST_TIMEOUT_MS);
+
+const toInlineData = (dataUrl: string) => {
+  const [header, data] = dataUrl.split(",");
+  return { inlineData: { data, mimeType: /^data:([^;]+)/.exec(header)?.[1] ?? "image/png" } };
+};
+
+const firstImagePart = (response: { candidates?: { content?: { parts?: unknown[] } }[] }) => {
+  for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+    const p: any = part;
+    if (p.inlineData) return `data:${p.inlineData.mimeType};base64,${p.inlineData.data}`;
+  }
+  return null;
+};
+
+// A failure the provider has already diagnosed. Calls that got a response carry its token usage so the audit log can bill it.
+class ProviderError extends Error {
+  constructor(readonly kind: ErrorKind, message: string, readonly info: { usage?: TokenUsage; finishReason?: string; categories?: string[] } = {}) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+const SAFETY_FINISH_REASONS = ["SAFETY", "IMAGE_SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII", "RECITATION"];
+
+// A response without an image was either blocked (prompt feedback, a safety finish reason or a blocked rating) or answered in text.
+function noImageError(response: GenerateContentResponse): ProviderError {
+  const usage = tokenUsage(response), candidate = response.candidates?.[0];
+  const finishReason = response.promptFeedback?.blockReason ?? candidate?.finishReason;
+  const ratings = [...(response.promptFeedback?.safetyRatings ?? []), ...(candidate?.safetyRatings ?? [])];
+  const categories = [...new Set(ratings.filter(r => r.blocked && r.category).map(r => r.category!.replace(/^HARM_CATEGORY_/, "").toLowerCase().replace(/_/g, " ")))];
+  if (response.promptFeedback?.blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) || categories.length > 0) {
+    return new ProviderError("safety", `Blocked by safety filters (${finishReason ?? "no reason given"})`, { usage, finishReason, categories });
+  }
+  return new ProviderError("refusal", response.text || "The AI did not return an image. It may have refused the request.", { usage, finishReason });
+}
+
+// Thinking tokens are billed as output, so they are counted with the candidates.
+const tokenUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const u = response.usageMetadata;
+  if (!u) return undefined;
+  const promptTokens = u.promptTokenCount ?? 0, outputTokens = (u.candidatesTokenCount ?? 0) + (u.thoughtsTokenCount ?? 0);
+  return { promptTokens, outputTokens, totalTokens: u.totalTokenCount ?? promptTokens + outputTokens };
+};
+
+const geminiProvider: EnhancementProvider = {
+  id: "gemini", name: "Gemini",
+  isAvailable: () => !!ai,
+  enhance: async (req) => {
+    const { image, tools, model, models, mask, templates, signal } = req;
+    if (!ai) throw new ProviderError("missing-key", "Missing API key. Set AI_STUDIO_API_KEY, VITE_API_KEY, or process.env.API_KEY.");
+    checkModelInput(model, models, mask ? [image.data, mask.data] : [image.data]);
+    const started = performance.now();
+    const prompt = req.prompt ?? buildPrompt(tools, mask, templates);
+    const base64Data = image.data.split(",")[1];
+    const imagePart = { inlineData: { data: base64Data, mimeType: image.type } };
+    const maskParts = mask ? [{ inlineData: { data: mask.data.split(",")[1], mimeType: "image/png" } }] : [];
+    const textPart = { text: prompt };
+
+    const response = await ai.models.generateContent({
+      model, contents: { parts: [imagePart, ...maskParts, textPart] },
+      config: { responseModalities: [Modality.IMAGE, Modality.TEXT], abortSignal: requestSignal(signal) }
+    });
+
+    const result = firstImagePart(response);
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (result) {
+      return {
+        image: result, prompt,
+        metadata: { provider: "gemini", model, durationMs: Math.round(performance.now() - started), finishReason, usage: tokenUsage(response) }
+      };
+    }
+    throw noImageError(response);
+  },
+  refine: async ({ original, basePrompt, previous, history, instruction, model, models, signal }) => {
+    if (!ai) throw new ProviderError("missing-key", "Missing API key. Set AI_STUDIO_API_KEY, VITE_API_KEY, or process.env.API_KEY.");
+    checkModelInput(model, models, [original.data, previous]);
+    const started = performance.now();
+    const prompt = buildRefinementPrompt(instruction, history);
+    const response = await ai.models.generateContent({
+      model,
+      contents: [
+        { role: "user", parts: [toInlineData(original.data), { text: basePrompt }] },
+        { role: "model", parts: [toInlineData(previous)] },
+        { role: "user", parts: [{ text: prompt }] },
+      ],
+      config: { responseModalities: [Modality.IMAGE, Modality.TEXT], abortSignal: requestSignal(signal) }
+    });
+    const result = firstImagePart(response);
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (result) {
+      return {
+        image: result, prompt,
+        metadata: { provider: "gemini", model, durationMs: Math.round(performance.now() - started), finishReason, usage: tokenUsage(response) }
+      };
+    }
+    throw noImageError(response);
+  },
+};
+
+// Deterministic offline stand-in: upscales on a canvas and applies a fixed grade, so the same input always yields the same output.
+const localProvider: EnhancementProvider = {
+  id: "local", name: "Local (offline)",
+  isAvailable: () => true,
+  enhance: async (req) => {
+    const { image, tools, model, mask, templates, signal } = req;
+    const started = performance.now();
+    const prompt = req.prompt ?? buildPrompt(tools, mask, templates);
+    const img = await loadImage(image.data).catch(() => { throw new ProviderError("invalid-image", `Could not decode ${image.name}.`); });
+    signal?.throwIfAborted();
+    const factor = tools.superResolution.enabled ? parseInt(tools.superResolution.upscale, 10) : 1;
+    const scale = Math.min(factor, LOCAL_PROVIDER_MAX_EDGE / Math.max(img.width, img.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(img.width * Math.max(scale, 1)));
+    canvas.height = Math.max(1, Math.round(img.height * Math.max(scale, 1)));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not get canvas context");
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = "high";
+    ctx.filter = "contrast(1.06) saturate(1.08)";
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return {
+      image: canvas.toDataURL("image/png"), prompt,
+      metadata: { provider: "local", model, durationMs: Math.round(performance.now() - started), width: canvas.width, height: canvas.height }
+    };
+  },
+  refine: async ({ previous, history, instruction, model, signal }) => {
+    const started = performance.now();
+    const prompt = buildRefinementPrompt(instruction, history);
+    const img = await loadImage(previous);
+    signal?.throwIfAborted();
+    const canvas = document.createElement("canvas");
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not get canvas context");
+    ctx.filter = "contrast(1.03)";
+    ctx.drawImage(img, 0, 0);
+    return {
+      image: canvas.toDataURL("image/png"), prompt,
+      metadata: { provider: "local", model, durationMs: Math.round(performance.now() - started), width: canvas.width, height: canvas.height }
+    };
+  },
+};
+
+const ENHANCEMENT_PROVIDERS: Readonly<Record<ProviderId, EnhancementProvider>> = { gemini: geminiProvider, local: localProvider };
+
+// `signal` is the request's own, so a call counts as aborted only when the user cancelled it, not when it timed out.
+async function reportUsage(kind: UsageEvent["kind"], provider: ProviderId, model: ModelName, prompt: string, signal: AbortSignal | undefined,
+  onUsage: (event: UsageEvent) => void, call: () => Promise<EnhancementResult>): Promise<EnhancementResult> {
+  const started = performance.now();
+  try {
+    const result = await call();
+    const { durationMs, usage, finishReason } = result.metadata;
+    onUsage({ kind, provider, model, prompt, durationMs, usage, finishReason, outcome: "success" });
+    return result;
+  } catch (err) {
+    onUsage({
+      kind, provider, model, prompt, durationMs: Math.round(performance.now() - started),
+      usage: err instanceof ProviderError ? err.info.usage : undefined, finishReason: err instanceof ProviderError ? err.info.finishReason : undefined,
+      outcome: signal?.aborted ? "aborted" : "error", error: err instanceof Error ? err.message : String(err), errorKind: classifyError(err, { signal }).kind,
+    });
+    throw err;
+  }
+}
+
+// Wraps a provider so each call (tiles and retries included) is reported to the request's onUsage.
+const auditedProvider = (provider: EnhancementProvider, onUsage?: (event: UsageEvent) => void): EnhancementProvider => !onUsage ? provider : {
+  ...provider,
+  enhance: req => reportUsage("enhance", provider.id, req.model, req.prompt ?? buildPrompt(req.tools, req.mask, req.templates), req.signal, onUsage, () => provider.enhance(req)),
+  refine: req => reportUsage("refine", provider.id, req.model, buildRefinementPrompt(req.instruction, req.history), req.signal, onUsage, () => provider.refine(req)),
+};
+
+// Serves provider calls from the result cache, keyed on everything the provider is sent.
+// Sits outside auditedProvider, so cache hits are not logged as usage.
+const cachedProvider = (provider: EnhancementProvider, cache: EnhancementRequest["cache"], lookups: { hits: number; misses: number }): EnhancementProvider => !cache ? provider : {
+  ...provider,
+  enhance: async req => {
+    const prompt = req.prompt ?? buildPrompt(req.tools, req.mask, req.templates);
+    const key = await resultCacheKey(provider.id, req.model, prompt, req.image, req.mask);
+    const hit = cache.refresh ? null : await resultCacheStore.get(key).catch(e => { console.error("Could not read result cache", e); return null; });
+    if (hit) {
+      lookups.hits++;
+      return { image: hit.image, prompt, metadata: { ...hit.metadata, cached: true } };
+    }
+    lookups.misses++;
+    const result = await provider.enhance(req);
+    resultCacheStore.put(key, result, cache.maxBytes).catch(e => console.error("Could not store result in cache", e));
+    return result;
+  },
+};
+
+const refineImage = (req: RefinementRequest, providerId: ProviderId) => auditedProvider(ENHANCEMENT_PROVIDERS[providerId], req.onUsage).refine(req);
+
+// Pixel crop runs on the input (mask included) or on the provider's result; local tone is always graded last.
+// Tiled upscaling sizes the output from the (cropped) input, so the factor holds regardless of what the model returns.
+const enhanceImage = async (req: EnhancementRequest, providerId: ProviderId): Promise<EnhancementResult> => {
+  const { crop } = req.tools;
+  req = { ...req, mask: effectiveMask(req.tools, req.mask) };
+  if (usesPixelCrop(crop) && crop.stage === "before") {
+    const image = { ...req.image, type: "image/png", data: await applyCropToImage(req.image.data, crop) };
+    const mask = req.mask && { ...req.mask, data: await applyCropToImage(req.mask.data, crop) };
+    req = { ...req, image, mask };
+  }
+  const lookups = { hits: 0, misses: 0 };
+  const provider = cachedProvider(auditedProvider(ENHANCEMENT_PROVIDERS[providerId], req.onUsage), req.cache, lookups);
+  let result = usesTiledUpscale(req.tools.superResolution) ? await enhanceWithTiledUpscale(req, provider) : await provider.enhance(req);
+  // Post-processing is cheap and deterministic, so it is redone on cached results rather than cached itself.
+  result = { ...result, metadata: { ...result.metadata, cached: lookups.hits > 0 && lookups.misses === 0 } };
+  if (usesPixelCrop(crop) && crop.stage === "after") result = { ...result, image: await applyCropToImage(result.image, crop) };
+  if (!usesLocalTone(req.tools.colorTone)) return result;
+  return { ...result, image: await applyColorToneToImage(result.image, req.tools.colorTone), base: result.image };
+};
+
+/* ---------- error classification ---------- */
+const ERROR_KINDS: Readonly<Record<ErrorKind, Pick<ErrorInfo, "title" | "explanation" | "fix" | "retryable">>> = {
+  "missing-key": { title: "No API key", explanation: "No Gemini API key is configured.", fix: "Set AI_STUDIO_API_KEY, VITE_API_KEY or process.env.API_KEY, or switch to the local provider.", retryable: false },
+  auth: { title: "API key rejected", explanation: "Gemini rejected the API key, or the key has no access to this model.", fix: "Check the key in Google AI Studio and that the model is enabled for its project.", retryable: false },
+  quota: { title: "Quota or rate limit", explanation: "Gemini is limiting requests for this key.", fix: "Wait and retry, lower the batch concurrency, or check the plan and billing for the key.", retryable: true },
+  safety: { title: "Blocked by safety filters", explanation: "Gemini's safety filters blocked this request.", fix: "Reword any free-text instructions or try a different photo.", retryable: false },
+  refusal: { title: "No image returned", explanation: "The model answered without an image, which usually means it declined the request.", fix: "Simplify the settings or turn off tools with custom instructions, then try again.", retryable: false },
+  "invalid-image": { title: "Image not accepted", explanation: "The input image could not be read.", fix: "Export the photo again as JPEG or PNG and re-upload it.", retryable: false },
+  model: { title: "Model cannot take this request", explanation: "The selected model does not support this request.", fix: "Pick another model under Models, remove the mask, or lower the maximum upload size.", retryable: false },
+  network: { title: "Network error", explanation: "The request did not reach Gemini.", fix: "Check the connection; queued images are retried automatically.", retryable: true },
+  timeout: { title: "Timed out", explanation: "Gemini took too long to answer.", fix: "Retry, or lower the maximum upload size.", retryable: true },
+  server: { title: "Gemini unavailable", explanation: "Gemini returned a server error or is overloaded.", fix: "Wait a moment and retry.", retryable: true },
+  aborted: { title: "Cancelled", explanation: "The request was cancelled.", fix: "", retryable: false },
+  unknown: { title: "Request failed", explanation: "The request failed for an unrecognised reason.", fix: "Retry if the problem looks temporary.", retryable: false },
+};
+
+// Free-text settings are the usual trigger of a safety block or refusal, so the suggested fix names the ones in use.
+function freeTextSettings(tools?: ToolStates, templates?: PromptTemplates, instruction?: string): string[] {
+  if (!tools) return instruction ? ["refinement instruction"] : [];
+  return [
+    tools.background.enabled && tools.background.mode === "custom" && tools.background.customInstruction.trim() && "background custom instruction",
+    tools.hairStyling.enabled && tools.hairStyling.mode === "custom" && tools.hairStyling.customInstruction.trim() && "hair styling custom instruction",
+    tools.distractions.enabled && tools.distractions.list.trim() && "distraction removal list",
+    templates && Object.keys(templates).length > 0 && "customised prompt templates",
+    instruction && "refinement instruction",
+  ].filter((s): s is string => !!s);
+}
+
+// The SDK rethrows a failed fetch (network drop, abort, timeout) as Error("exception <original> sending request") and keeps
+// the original only in the text; later versions set `cause`. Returns the original error's name, or undefined for other errors.
+function fetchFailureName(err: unknown): string | undefined {
+  if (!(err instanceof Error)) return undefined;
+  if (err.cause instanceof Error) return err.cause.name;
+  const wrapped = /^exception (.*) sending request$/s.exec(err.message)?.[1];
+  return wrapped === undefined ? undefined : /^\w+/.exec(wrapped)?.[0] ?? "";
+}
+
+// The SDK surfaces HTTP failures as "got status: 429 Too Many Requests. {json}" messages.
+// `context` is what the request was made with: its signal tells a cancellation from a failure, and its settings let safety and refusal fixes point at the likely culprit.
+function classifyError(err: unknown, context: { signal?: AbortSignal; tools?: ToolStates; templates?: PromptTemplates; instruction?: string } = {}): ErrorInfo {
+  const detail = err instanceof Error ? err.message : String(err);
+  const info = (kind: ErrorKind, extra: Partial<ErrorInfo> = {}): ErrorInfo => ({ kind, ...ERROR_KINDS[kind], detail, ...extra });
+  if (context.signal?.aborted || isAbortError(err)) return info("aborted");
+  if (err instanceof ProviderError) {
+    const { finishReason, categories = [] } = err.info;
+    if (err.kind === "model") return info("model", { explanation: detail });
+    if (err.kind !== "safety" && err.kind !== "refusal") return info(err.kind, { finishReason });
+    const suspects = freeTextSettings(context.tools, context.templates, context.instruction);
+    const fix = suspects.length > 0 ? `The ${suspects.join(" or ")} may have triggered this; reword or turn ${suspects.length > 1 ? "them" : "it"} off and try again.` : undefined;
+    const explanation = err.kind === "safety"
+      ? `Gemini's safety filters blocked this request${categories.length > 0 ? ` for ${categories.join(", ")}` : ""} (${finishReason ?? "no reason given"}).`
+      : `The model answered without an image${finishReason && finishReason !== "STOP" ? ` (${finishReason})` : ""}. It said: "${detail}"`;
+    return info(err.kind, { explanation, finishReason, ...(fix && { fix }) });
+  }
+  const fetchFailure = fetchFailureName(err);
+  if ((err instanceof DOMException && err.name === "TimeoutError") || fetchFailure === "TimeoutError") return info("timeout");
+  if (err instanceof TypeError || fetchFailure !== undefined) return info("network");
+  const status = Number(/got status: (\d{3})/.exec(detail)?.[1]) || undefined;
+  const apiStatus = /"status":\s*"([A-Z_]+)"/.exec(detail)?.[1];
+  const retryDelay = /"retryDelay":\s*"(\d+(?:\.\d+)?)s"/.exec(detail)?.[1];
+  if (/API key not valid|API_KEY_INVALID/i.test(detail) || status === 401 || status === 403) return info("auth", { status });
+  if (status === 429 || apiStatus === "RESOURCE_EXHAUSTED") return info("quota", { status, retryAfterMs: retryDelay ? Number(retryDelay) * 1000 : undefined });
+  if (status === 408 || status === 504 || apiStatus === "DEADLINE_EXCEEDED") return info("timeout", { status });
+  if (status === 404) return info("model", { status, explanation: "Gemini does not know the selected model.", fix: "Check the model id under Models." });
+  if (status === 400 && /image|mime/i.test(detail)) return info("invalid-image", { status });
+  if (status && status >= 500) return info("server", { status, retryable: RETRYABLE_HTTP_STATUSES.includes(status) });
+  return info("unknown", { status, explanation: detail });
+}
+
+const formatError = (e: ErrorInfo) => [`${e.title}: ${e.explanation}`, e.fix].filter(Boolean).join(" ");
+
+/* ---------- retry ---------- */
+const isAbortError = (err: unknown) => (err instanceof DOMException && err.name === "AbortError") || fetchFailureName(err) === "AbortError";
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const onAbort = () => { clearTimeout(t); reject(signal!.reason); };
+  const t = setTimeout(() => { signal?.removeEventListener("abort", onAbort); resolve(); }, ms);
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
+
+// Exponential backoff with "equal jitter": half the window is fixed, the other half random.
+const backoffDelay = (attempt: number) => {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return ceiling / 2 + Math.random() * ceiling / 2;
+};
+
+async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  { retries, signal, onRetry }: { retries: number; signal?: AbortSignal; onRetry?: (err: unknown, attempt: number, delayMs: number) => void }
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      const failure = classifyError(err, { signal });
+      if (failure.kind === "aborted" || attempt >= retries || !failure.retryable) throw err;
+      // Honour the API's own retry delay when it gives one, within the usual ceiling.
+      const delay = Math.max(backoffDelay(attempt), Math.min(RETRY_MAX_DELAY_MS, failure.retryAfterMs ?? 0));
+      onRetry?.(err, attempt + 1, delay);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/* ---------- tiled super-resolution ---------- */
+type Tile = { x: number; y: number; w: number; h: number; overlapLeft: number; overlapTop: number };
+
+const usesTiledUpscale = (sr: ToolStates["superResolution"]) => sr.enabled && sr.tiled;
+const upscaleFactor = (sr: ToolStates["superResolution"]) => parseInt(sr.upscale, 10);
+
+// Start offsets along one axis; the last tile is pulled back flush with the edge, so its overlap may be larger.
+function tileStarts(length: number, size: number, overlap: number): number[] {
+  if (length <= size) return [0];
+  const starts: number[] = [];
+  for (let x = 0; x + size < length; x += size - overlap) starts.push(x);
+  starts.push(length - size);
+  return starts;
+}
+
+function planTiles(width: number, height: number, factor: number): Tile[] {
+  let size = Math.ceil(TILED_SR_TILE_OUTPUT_EDGE / factor);
+  const count = (s: number) => tileStarts(width, s, Math.round(s * TILED_SR_OVERLAP)).length * tileStarts(height, s, Math.round(s * TILED_SR_OVERLAP)).length;
+  while (count(size) > TILED_SR_MAX_TILES) size = Math.ceil(size * 1.25);
+  const overlap = Math.round(size * TILED_SR_OVERLAP);
+  const xs = tileStarts(width, size, overlap), ys = tileStarts(height, size, overlap);
+  return ys.flatMap((y, j) => xs.map((x, i) => ({
+    x, y, w: Math.min(size, width - x), h: Math.min(size, height - y),
+    overlapLeft: i > 0 ? xs[i - 1] + size - x : 0, overlapTop: j > 0 ? ys[j - 1] + size - y : 0,
+  })));
+}
+
+function drawToCanvas(source: CanvasImageSource, sx: number, sy: number, sw: number, sh: number, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, sx, sy, sw, sh, 0, 0, width, height);
+  return canvas;
+}
+
+// Fades the tile in across the overlap it shares with the tiles already drawn (left and top), so source-over compositing crossfades the seam.
+function featherTile(canvas: HTMLCanvasElement, left: number, top: number) {
+  const ctx = canvas.getContext("2d")!;
+  ctx.globalCompositeOperation = "destination-in";
+  if (left > 0) {
+    const g = ctx.createLinearGradient(0, 0, left, 0);
+    g.addColorStop(0, "rgba(0,0,0,0)"); g.addColorStop(1, "rgba(0,0,0,1)");
+    ctx.fillStyle = g; ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  if (top > 0) {
+    const g = ctx.createLinearGradient(0, 0, 0, top);
+    g.addColorStop(0, "rgba(0,0,0,0)"); g.addColorStop(1, "rgba(0,0,0,1)");
+    ctx.fillStyle = g; ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.globalCompositeOperation = "source-over";
+}
+
+// Pass 1 applies every other edit at the model's native size; pass 2 upscales that result tile by tile to exactly factor x the input.
+// Each request retries on its own, so a failed tile never repeats pass 1 or the tiles already done; callers must not retry the whole job.
+async function enhanceWithTiledUpscale(req: EnhancementRequest, provider: EnhancementProvider): Promise<EnhancementResult> {
+  const { tools, signal } = req;
+  const factor = upscaleFactor(tools.superResolution);
+  const input = await loadImage(req.image.data);
+  const width = input.width * factor, height = input.height * factor;
+  if (width * height > TILED_SR_MAX_PIXELS) {
+    throw new Error(`${tools.superResolution.upscale} of ${input.width}×${input.height} would be ${width}×${height}, above the ${TILED_SR_MAX_PIXELS / 1e6} MP limit. Pick a lower factor or crop first.`);
+  }
+  const started = performance.now();
+  const first = await withRetry(() => provider.enhance({ ...req, tools: { ...tools, superResolution: { ...tools.superResolution, enabled: false } } }),
+    { retries: BATCH_MAX_RETRIES, signal });
+  signal?.throwIfAborted();
+
+  // Tiles are cut from the pass-1 result resampled to the input size, so tile coordinates map to the output by exactly `factor`.
+  const enhanced = await loadImage(first.image);
+  const reference = drawToCanvas(enhanced, 0, 0, enhanced.width, enhanced.height, input.width, input.height);
+  const tiles = planTiles(input.width, input.height, factor);
+  const tilePrompt = renderTemplate(req.templates?.superResolutionTile ?? DEFAULT_PROMPT_TEMPLATES.superResolutionTile, promptVariables(tools));
+  const output = document.createElement("canvas");
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.imageSmoothingQuality = "high";
+
+  req.onProgress?.({ done: 0, total: tiles.length });
+  for (const [i, tile] of tiles.entries()) {
+    const crop = drawToCanvas(reference, tile.x, tile.y, tile.w, tile.h, tile.w, tile.h);
+    const result = await withRetry(() => provider.enhance({
+      ...req, image: { name: `${req.image.name}-tile-${i + 1}`, type: "image/png", data: crop.toDataURL("image/png") }, mask: undefined, prompt: tilePrompt,
+      tools: { ...tools, superResolution: { ...tools.superResolution, tiled: false } },
+    }), { retries: BATCH_MAX_RETRIES, signal });
+    const upscaled = await loadImage(result.image);
+    const piece = drawToCanvas(upscaled, 0, 0, upscaled.width, upscaled.height, tile.w * factor, tile.h * factor);
+    featherTile(piece, tile.overlapLeft * factor, tile.overlapTop * factor);
+    ctx.drawImage(piece, tile.x * factor, tile.y * factor);
+    req.onProgress?.({ done: i + 1, total: tiles.length });
+  }
+
+  const image = output.toDataURL("image/png");
+  const check = await loadImage(image);
+  if (check.width !== width || check.height !== height) throw new Error(`Upscaled output is ${check.width}×${check.height}, expected ${width}×${height}.`);
+  return {
+    image, prompt: `${first.prompt}\n\nTILED SUPER RESOLUTION: ${tools.superResolution.upscale} in ${tiles.length} tile(s) to ${width}×${height}.`,
+    metadata: { ...first.metadata, durationMs: Math.round(performance.now() - started), width, height },
+  };
+}
+
+/* ---------- quality metrics ---------- */
+const QUALITY_PSNR_CAP = 99;
+
+function parseQualityThresholds(raw: unknown): QualityThresholds {
+  if (!isRecord(raw)) return DEFAULT_QUALITY_THRESHOLDS;
+  const pick = (key: keyof QualityThresholds, min: number, max: number) => {
+    const v = raw[key];
+    return typeof v === "number" && Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : DEFAULT_QUALITY_THRESHOLDS[key];
+  };
+  return { minSsim: pick("minSsim", 0, 1), minPsnr: pick("minPsnr", 0, QUALITY_PSNR_CAP), maxHistogramShift: pick("maxHistogramShift", 0, 1) };
+}
+
+// What the result should be compared against: the original, cropped the same way when the crop is applied in pixels.
+const qualityReference = (original: ImageFile, tools?: ToolStates) =>
+  tools && usesPixelCrop(tools.crop) ? applyCropToImage(original.data, tools.crop) : Promise.resolve(original.data);
+
+// Both images resampled to the reference's aspect, longest edge `edge`, so results of any size line up pixel for pixel.
+async function readPair(reference: string, result: string, edge: number): Promise<{ a: ImageData; b: ImageData }> {
+  const [ref, res] = await Promise.all([loadImage(reference), loadImage(result)]);
+  const scale = Math.min(1, edge / Math.max(ref.width, ref.height));
+  const w = Math.max(1, Math.round(ref.width * scale)), h = Math.max(1, Math.round(ref.height * scale));
+  const read = (img: HTMLImageElement) => drawToCanvas(img, 0, 0, img.width, img.height, w, h).getContext("2d")!.getImageData(0, 0, w, h);
+  return { a: read(ref), b: read(res) };
+}
+
+function luma({ data, width, height }: ImageData): Float32Array {
+  const out = new Float32Array(width * height);
+  for (let i = 0; i < out.length; i++) out[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  return out;
+}
+
+// Mean SSIM over 8x8 windows with a stride of 4.
+function ssim(x: Float32Array, y: Float32Array, width: number, height: number): number {
+  const C1 = (0.01 * 255) ** 2, C2 = (0.03 * 255) ** 2, size = 8, step = 4, n = size * size;
+  let total = 0, windows = 0;
+  for (let top = 0; top + size <= height; top += step) {
+    for (let left = 0; left + size <= width; left += step) {
+      let mx = 0, my = 0;
+      for (let j = top; j < top + size; j++) for (let i = left; i < left + size; i++) { mx += x[j * width + i]; my += y[j * width + i]; }
+      mx /= n; my /= n;
+      let vx = 0, vy = 0, cov = 0;
+      for (let j = top; j < top + size; j++) for (let i = left; i < left + size; i++) {
+        const dx = x[j * width + i] - mx, dy = y[j * width + i] - my;
+        vx += dx * dx; vy += dy * dy; cov += dx * dy;
+      }
+      vx /= n - 1; vy /= n - 1; cov /= n - 1;
+      total += ((2 * mx * my + C1) * (2 * cov + C2)) / ((mx * mx + my * my + C1) * (vx + vy + C2));
+      windows++;
+    }
+  }
+  return windows ? total / windows : 1;
+}
+
+function psnr(x: Float32Array, y: Float32Array): number {
+  let mse = 0;
+  for (let i = 0; i < x.length; i++) mse += (x[i] - y[i]) ** 2;
+  mse /= x.length;
+  return mse === 0 ? QUALITY_PSNR_CAP : Math.min(QUALITY_PSNR_CAP, 10 * Math.log10(255 ** 2 / mse));
+}
+
+// Total-variation distance between 32-bin histograms, averaged over R, G and B: 0 is identical, 1 is disjoint.
+function histogramShift(a: ImageData, b: ImageData): number {
+  const bins = 32, pixels = a.width * a.height;
+  let sum = 0;
+  for (let c = 0; c < 3; c++) {
+    const ha = new Float64Array(bins), hb = new Float64Array(bins);
+    for (let i = 0; i < pixels; i++) { ha[a.data[i * 4 + c] >> 3]++; hb[b.data[i * 4 + c] >> 3]++; }
+    let d = 0;
+    for (let k = 0; k < bins; k++) d += Math.abs(ha[k] - hb[k]);
+    sum += d / (2 * pixels);
+  }
+  return sum / 3;
+}
+
+async function analyzeResult(original: ImageFile, result: string, tools?: ToolStates): Promise<QualityMetrics> {
+  const { a, b } = await readPair(await qualityReference(original, tools), result, QUALITY_ANALYSIS_EDGE);
+  const la = luma(a), lb = luma(b);
+  return { ssim: ssim(la, lb, a.width, a.height), psnr: psnr(la, lb), histogramShift: histogramShift(a, b) };
+}
+
+// Per-pixel luma difference, transparent where unchanged and shading to opaque red where the result departs most.
+async function diffHeatmap(original: ImageFile, result: string, tools?: ToolStates): Promise<string> {
+  const { a, b } = await readPair(await qualityReference(original, tools), result, QUALITY_HEATMAP_EDGE);
+  const la = luma(a), lb = luma(b);
+  const out = new ImageData(a.width, a.height);
+  for (let i = 0; i < la.length; i++) {
+    const d = Math.min(1, (Math.abs(la[i] - lb[i]) / 255) * 4);
+    out.data[i * 4] = 255;
+    out.data[i * 4 + 1] = Math.round(220 * (1 - d));
+    out.data[i * 4 + 2] = 0;
+    out.data[i * 4 + 3] = Math.round(230 * Math.sqrt(d));
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = a.width;
+  canvas.height = a.height;
+  canvas.getContext("2d")!.putImageData(out, 0, 0);
+  return canvas.toDataURL("image/png");
+}
+
+// Reasons a result looks suspicious under the given thresholds; empty when it passes.
+function qualityWarnings(m: QualityMetrics | undefined, t: QualityThresholds): string[] {
+  if (!m) return [];
+  const warnings: string[] = [];
+  if (m.ssim < t.minSsim) warnings.push(`Structure drift: SSIM ${m.ssim.toFixed(2)} < ${t.minSsim}`);
+  if (m.psnr < t.minPsnr) warnings.push(`Large pixel change: PSNR ${m.psnr.toFixed(1)} dB < ${t.minPsnr} dB`);
+  if (m.histogramShift > t.maxHistogramShift) warnings.push(`Colour shift: ${Math.round(m.histogramShift * 100)}% > ${Math.round(t.maxHistogramShift * 100)}%`);
+  return warnings;
+}
+
+// Analysis failures never block saving a result; the item is just left unscored.
+const analyzeResultSafe = (original: ImageFile, result: string, tools?: ToolStates) =>
+  analyzeResult(original, result, tools).catch(e => { console.error("Could not analyze result", e); return undefined; });
+
+/* ---------- library storage ---------- */
+const idbRequest = <T,>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+const idbDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains("library")) db.createObjectStore("library", { keyPath: "id" });
+      if (!db.objectStoreNames.contains("blobs")) db.createObjectStore("blobs");
+      if (!db.objectStoreNames.contains("session")) db.createObjectStore("session");
+      if (!db.objectStoreNames.contains("usage")) db.createObjectStore("usage", { keyPath: "id" });
+      if (!db.objectStoreNames.contains("cache")) db.createObjectStore("cache", { keyPath: "key" });
+    };
+    dbPromise = idbRequest(req);
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+// Every blob of a library item is keyed "<id>:<part>", so one range covers them all.
+const blobKeyRange = (id: string) => IDBKeyRange.bound(`${id}:`, `${id}:\uffff`);
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const r = new FileReader();
+  r.onloadend = () => resolve(r.result as string);
+  r.onerror = () => reject(r.error);
+  r.readAsDataURL(blob);
+});
+
+async function createThumbnail(src: string): Promise<string> {
+  const img = await loadImage(src);
+  const scale = Math.min(1, LIBRARY_THUMBNAIL_EDGE / Math.max(img.width, img.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(img.width * scale));
+  canvas.height = Math.max(1, Math.round(img.height * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.8);
+}
+
+const libraryStore = {
+  async list(): Promise<LibraryEntry[]> {
+    const db = await openDb();
+    const entries = await idbRequest<LibraryEntry[]>(db.transaction("library").objectStore("library").getAll());
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  },
+  async put(item: BatchItem, createdAt = Date.now()): Promise<LibraryEntry> {
+    if (!item.result) throw new Error("Only finished items can be saved to the library.");
+    const [original, result, thumbnail] = await Promise.all([dataUrlToBlob(item.file.data), dataUrlToBlob(item.result), createThumbnail(item.result)]);
+    const thread = item.refinement;
+    const refinementBlobs = thread
+      ? await Promise.all([["base", thread.base] as const, ...thread.turns.map(t => [t.id, t.image] as const)].map(async ([key, data]) => [key, await dataUrlToBlob(data)] as const))
+      : [];
+    const entry: LibraryEntry = {
+      id: item.id, sourceKey: imageKey(item.file), parentId: item.parentId, model: item.model, metrics: item.metrics, outputName: item.outputName, cached: item.cached,
+      name: item.file.name, type: item.file.type, source: item.file.source, createdAt, thumbnail,
+      bytes: original.size + result.size + refinementBlobs.reduce((sum, [, blob]) => sum + blob.size, 0),
+      prompt: item.prompt, preset: item.preset, presetName: item.presetName, mask: item.mask,
+      refinement: thread && { active: thread.active, turns: thread.turns.map(({ image, ...turn }) => turn) },
+    };
+    const db = await openDb();
+    const tx = db.transaction(["library", "blobs"], "readwrite");
+    tx.objectStore("library").put(entry);
+    tx.objectStore("blobs").delete(blobKeyRange(item.id));
+    tx.objectStore("blobs").put(original, `${item.id}:original`);
+    tx.objectStore("blobs").put(result, `${item.id}:result`);
+    refinementBlobs.forEach(([key, blob]) => tx.objectStore("blobs").put(blob, `${item.id}:refine:${key}`));
+    await idbDone(tx);
+    return entry;
+  },
+  async load(entry: LibraryEntry): Promise<BatchItem> {
+    const db = await openDb();
+    const blobs = db.transaction("blobs").objectStore("blobs");
+    const [original, result] = await Promise.all([
+      idbRequest<Blob | undefined>(blobs.get(`${entry.id}:original`)), idbRequest<Blob | undefined>(blobs.get(`${entry.id}:result`)),
+    ]);
+    if (!original || !result) throw new Error(`Library item "${entry.name}" is missing its image data.`);
+    let refinement: RefinementThread | undefined;
+    if (entry.refinement) {
+      const loadRefinement = async (key: string) => {
+        const blob = await idbRequest<Blob | undefined>(db.transaction("blobs").objectStore("blobs").get(`${entry.id}:refine:${key}`));
+        if (!blob) throw new Error(`Library item "${entry.name}" is missing a refinement image.`);
+        return blobToDataUrl(blob);
+      };
+      const [base, ...images] = await Promise.all(["base", ...entry.refinement.turns.map(t => t.id)].map(loadRefinement));
+      refinement = { base, active: entry.refinement.active, turns: entry.refinement.turns.map((t, i) => ({ ...t, image: images[i] })) };
+    }
+    return {
+      id: entry.id, file: { name: entry.name, type: entry.type, data: await blobToDataUrl(original), source: entry.source },
+      status: 'done', result: await blobToDataUrl(result), prompt: entry.prompt, preset: entry.preset && normalizeTools(entry.preset), presetName: entry.presetName, mask: entry.mask, refinement,
+      parentId: entry.parentId, model: entry.model, metrics: entry.metrics, outputName: entry.outputName, cached: entry.cached,
+    };
+  },
+  async remove(ids: string[]): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction(["library", "blobs"], "readwrite");
+    ids.forEach(id => {
+      tx.objectStore("library").delete(id);
+      tx.objectStore("blobs").delete(blobKeyRange(id));
+    });
+    await idbDone(tx);
+  },
+  async clear(): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction(["library", "blobs"], "readwrite");
+    tx.objectStore("library").clear();
+    tx.objectStore("blobs").clear();
+    await idbDone(tx);
+  },
+  async estimate(): Promise<{ usage: number; quota: number } | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  },
+  // One-time move of the old localStorage library (full base64 BatchItems) into IndexedDB.
+  async migrateFromLocalStorage(): Promise<number> {
+    const raw = localStorage.getItem(LEGACY_LIBRARY_STORAGE_KEY);
+    if (!raw) return 0;
+    const legacy: BatchItem[] = JSON.parse(raw);
+    let migrated = 0;
+    for (const [i, item] of legacy.entries()) {
+      if (!item?.result || !item.file?.data) continue;
+      await libraryStore.put(item, Date.now() - i);
+      migrated++;
+    }
+    localStorage.removeItem(LEGACY_LIBRARY_STORAGE_KEY);
+    return migrated;
+  },
+};
+
+const imageKey = (image: ImageFile) => hashString(image.data);
+// Entries saved before versioning have no sourceKey; group those by file name instead.
+const entrySourceKey = (entry: LibraryEntry) => entry.sourceKey ?? `name:${entry.name}`;
+
+// Depth-first order of a version tree; entries whose parent is gone become roots.
+function orderVersions(entries: LibraryEntry[]): { entry: LibraryEntry; depth: number; number: number }[] {
+  const byAge = [...entries].sort((a, b) => a.createdAt - b.createdAt);
+  const numbers = new Map(byAge.map((e, i) => [e.id, i + 1]));
+  const ids = new Set(byAge.map(e => e.id));
+  const out: { entry: LibraryEntry; depth: number; number: number }[] = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    byAge.filter(e => (parentId ? e.parentId === parentId : !e.parentId || !ids.has(e.parentId))).forEach(e => {
+      out.push({ entry: e, depth, number: numbers.get(e.id)! });
+      visit(e.id, depth + 1);
+    });
+  };
+  visit(undefined, 0);
+  return out;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let v = bytes / 1024, u = 0;
+  while (v >= 1024 && u < units.length - 1) { v /= 1024; u++; }
+  return `${v.toFixed(1)} ${units[u]}`;
+};
+
+// Error toast for a failed local database operation, with the browser's reason when it gave one.
+const storageErrorToast = (e: unknown, message: string): Action => {
+  console.error(message, e);
+  return { type: "SHOW_TOAST", payload: { message: e instanceof Error ? `${message} ${e.message}` : message, type: "error" } };
+};
+
+// `add` reports failures itself and resolves to whether the item was saved.
+const useLibrary = () => {
+  const { dispatch } = useAppContext();
+  const add = useCallback(async (item: BatchItem): Promise<boolean> => {
+    try {
+      const entry = await libraryStore.put(item);
+      dispatch({ type: "ADD_TO_LIBRARY", payload: { entry } });
+      return true;
+    } catch (e) {
+      console.error("Could not save to library", e);
+      const full = e instanceof DOMException && e.name === "QuotaExceededError";
+      dispatch({ type: "SHOW_TOAST", payload: { message: full ? "Library storage is full. Prune old entries to save new results." : "Could not save result to library.", type: "error" } });
+      return false;
+    }
+  }, [dispatch]);
+  const remove = useCallback(async (ids: string[]) => {
+    await libraryStore.remove(ids);
+    ids.forEach(id => dispatch({ type: "REMOVE_FROM_LIBRARY", payload: { id } }));
+  }, [dispatch]);
+  const clear = useCallback(async () => {
+    await libraryStore.clear();
+    dispatch({ type: "CLEAR_LIBRARY" });
+  }, [dispatch]);
+  return useMemo(() => ({ add, remove, clear }), [add, remove, clear]);
+};
+
+/* ---------- usage log ---------- */
+// Local calls are free; Gemini calls are priced only when the model has a price table entry.
+function estimateCost(event: UsageEvent, prices: PriceTable): number | undefined {
+  if (event.provider === "local") return 0;
+  const price = prices[event.model];
+  if (!price || !event.usage) return undefined;
+  return (event.usage.promptTokens * price.inputPerMillion + event.usage.outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+const sumCost = (records: UsageRecord[]) => records.reduce((sum, r) => sum + (r.cost ?? 0), 0);
+const sessionSpend = (log: UsageRecord[]) => sumCost(log.filter(r => r.at >= SESSION_STARTED_AT));
+const batchSpend = (log: UsageRecord[], queue: BatchItem[]) => {
+  const ids = new Set(queue.map(item => item.id));
+  return sumCost(log.filter(r => r.itemId && ids.has(r.itemId)));
+};
+const formatUsd = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+
+// The first budget that has been reached, as a sentence for the toast; null while spending is within limits.
+function budgetExceeded(log: UsageRecord[], queue: BatchItem[], budgets: UsageBudgets): string | null {
+  const session = sessionSpend(log), batch = batchSpend(log, queue);
+  if (budgets.session !== undefined && session >= budgets.session) return `Session budget of ${formatUsd(budgets.session)} reached (${formatUsd(session)} spent).`;
+  if (budgets.batch !== undefined && batch >= budgets.batch) return `Batch budget of ${formatUsd(budgets.batch)} reached (${formatUsd(batch)} spent).`;
+  return null;
+}
+
+function parsePriceTable(raw: unknown): PriceTable {
+  const table: PriceTable = { ...DEFAULT_PRICE_TABLE };
+  if (isRecord(raw)) Object.entries(raw).forEach(([model, price]) => {
+    if (isRecord(price) && typeof price.inputPerMillion === "number" && typeof price.outputPerMillion === "number" && price.inputPerMillion >= 0 && price.outputPerMillion >= 0) {
+      table[model] = { inputPerMillion: price.inputPerMillion, outputPerMillion: price.outputPerMillion };
+    }
+  });
+  return table;
+}
+
+function parseUsageBudgets(raw: unknown): UsageBudgets {
+  const budget = (value: unknown) => typeof value === "number" && value > 0 ? value : undefined;
+  return isRecord(raw) ? { session: budget(raw.session), batch: budget(raw.batch) } : {};
+}
+
+// Calls, tokens and cost per month and client, newest month first.
+function usageBreakdown(log: UsageRecord[]): { month: string; client: string; calls: number; tokens: number; cost: number; unpriced: number }[] {
+  const rows = new Map<string, { month: string; client: string; calls: number; tokens: number; cost: number; unpriced: number }>();
+  log.forEach(r => {
+    const month = new Date(r.at).toISOString().slice(0, 7), client = r.client ?? "";
+    const key = `${month}\n${client}`;
+    const row = rows.get(key) ?? { month, client, calls: 0, tokens: 0, cost: 0, unpriced: 0 };
+    row.calls++;
+    row.tokens += r.usage?.totalTokens ?? 0;
+    if (r.cost === undefined) row.unpriced++; else row.cost += r.cost;
+    rows.set(key, row);
+  });
+  return [...rows.values()].sort((a, b) => b.month.localeCompare(a.month) || a.client.localeCompare(b.client));
+}
+
+const USAGE_CSV_COLUMNS = ["time", "client", "image", "itemId", "kind", "provider", "model", "outcome", "errorKind", "finishReason", "durationMs",
+  "promptTokens", "outputTokens", "totalTokens", "costUsd", "promptSha256", "error"] as const;
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+function usageToCsv(log: UsageRecord[]): string {
+  const rows = log.map(r => [
+    new Date(r.at).toISOString(), r.client, r.imageName, r.itemId, r.kind, r.provider, r.model, r.outcome, r.errorKind, r.finishReason, r.durationMs,
+    r.usage?.promptTokens, r.usage?.outputTokens, r.usage?.totalTokens, r.cost, r.promptSha256, r.error,
+  ].map(csvCell).join(","));
+  return [USAGE_CSV_COLUMNS.join(","), ...rows].join("\n");
+}
+
+const usageToJsonl = (log: UsageRecord[]) => log.map(r => JSON.stringify({ ...r, time: new Date(r.at).toISOString() })).join("\n");
+
+const usageStore = {
+  async list(): Promise<UsageRecord[]> {
+    const db = await openDb();
+    const records = await idbRequest<UsageRecord[]>(db.transaction("usage").objectStore("usage").getAll());
+    return records.sort((a, b) => a.at - b.at);
+  },
+  async add(record: UsageRecord): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction("usage", "readwrite");
+    tx.objectStore("usage").put(record);
+    await idbDone(tx);
+  },
+  async clear(): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction("usage", "readwrite");
+    tx.objectStore("usage").clear();
+    await idbDone(tx);
+  },
+};
+
+// `reporter(imageName, itemId)` returns an onUsage callback that prices, logs and persists each call.
+const useUsageLog = () => {
+  const { state, dispatch } = useAppContext();
+  const { priceTable, usageClient } = state;
+  const reporter = useCallback((imageName: string, itemId?: string) => (event: UsageEvent) => {
+    const { prompt, ...call } = event;
+    const at = Date.now();
+    sha256Hex(prompt).then(promptSha256 => {
+      const record: UsageRecord = {
+        ...call, id: `${at}-${Math.random().toString(36).slice(2, 10)}`, at, promptSha256, imageName, itemId,
+        client: usageClient.trim() || undefined, cost: estimateCost(event, priceTable),
+      };
+      dispatch({ type: "ADD_USAGE_RECORD", payload: record });
+      return usageStore.add(record);
+    }).catch(e => console.error("Could not record usage", e));
+  }, [dispatch, priceTable, usageClient]);
+  const clear = useCallback(async () => {
+    await usageStore.clear();
+    dispatch({ type: "CLEAR_USAGE_LOG" });
+  }, [dispatch]);
+  return useMemo(() => ({ reporter, clear }), [reporter, clear]);
+};
+
+/* ---------- result cache ---------- */
+// One provider response. The image is stored as a Blob; `lastUsedAt` drives least-recently-used eviction.
+type CachedResult = { key: string; image: Blob; metadata: EnhancementMetadata; bytes: number; createdAt: number; lastUsedAt: number };
+
+const resultCacheKey = (provider: ProviderId, model: ModelName, prompt: string, image: ImageFile, mask?: ImageMask) =>
+  sha256Hex([provider, model, prompt, image.data, mask?.data ?? ""].join("\n"));
+
+const resultCacheStore = {
+  async get(key: string): Promise<{ image: string; metadata: EnhancementMetadata } | null> {
+    const db = await openDb();
+    const entry = await idbRequest<CachedResult | undefined>(db.transaction("cache").objectStore("cache").get(key));
+    if (!entry) return null;
+    const touch = db.transaction("cache", "readwrite");
+    touch.objectStore("cache").put({ ...entry, lastUsedAt: Date.now() });
+    // A failed touch only skews eviction order; the hit itself is still good.
+    await idbDone(touch).catch(e => console.error("Could not update result cache entry", e));
+    return { image: await blobToDataUrl(entry.image), metadata: entry.metadata };
+  },
+  async put(key: string, result: EnhancementResult, maxBytes: number): Promise<void> {
+    const image = await dataUrlToBlob(result.image);
+    const now = Date.now();
+    const db = await openDb();
+    const tx = db.transaction("cache", "readwrite");
+    const entry: CachedResult = { key, image, metadata: { ...result.metadata, cached: undefined }, bytes: image.size, createdAt: now, lastUsedAt: now };
+    tx.objectStore("cache").put(entry);
+    await idbDone(tx);
+    await resultCacheStore.prune(maxBytes);
+  },
+  async entries(): Promise<CachedResult[]> {
+    const db = await openDb();
+    return idbRequest<CachedResult[]>(db.transaction("cache").objectStore("cache").getAll());
+  },
+  async stats(): Promise<{ count: number; bytes: number }> {
+    const entries = await resultCacheStore.entries();
+    return { count: entries.length, bytes: entries.reduce((sum, e) => sum + e.bytes, 0) };
+  },
+  // Drops least recently used results until the cache fits in maxBytes.
+  async prune(maxBytes: number): Promise<number> {
+    const entries = (await resultCacheStore.entries()).sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    let total = 0;
+    const stale = entries.filter(e => (total += e.bytes) > maxBytes);
+    if (stale.length === 0) return 0;
+    const db = await openDb();
+    const tx = db.transaction("cache", "readwrite");
+    stale.forEach(e => tx.objectStore("cache").delete(e.key));
+    await idbDone(tx);
+    return stale.length;
+  },
+  async clear(): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction("cache", "readwrite");
+    tx.objectStore("cache").clear();
+    await idbDone(tx);
+  },
+};
+
+function parseResultCacheSettings(raw: unknown): ResultCacheSettings {
+  if (!isRecord(raw)) return DEFAULT_RESULT_CACHE;
+  return {
+    enabled: typeof raw.enabled === "boolean" ? raw.enabled : DEFAULT_RESULT_CACHE.enabled,
+    maxBytes: typeof raw.maxBytes === "number" && RESULT_CACHE_SIZE_OPTIONS.includes(raw.maxBytes) ? raw.maxBytes : DEFAULT_RESULT_CACHE.maxBytes,
+  };
+}
+
+/* ---------- export ---------- */
+type ExportFormat = 'png' | 'jpeg' | 'webp';
+// Named output recipe. Missing width/height leaves that edge free; maxKB makes JPEG/WebP search for the highest quality that fits.
+type ExportProfile = {
+  id: string; name: string; format: ExportFormat; quality: number; width?: number; height?: number;
+  fit: "contain" | "cover"; dpi?: number; sharpen: number; maxKB?: number; isBuiltIn?: boolean;
+};
+type ExportOptions = { format: ExportFormat; quality: number; template: string; includePrompt: boolean; includeRecipe: boolean; profile?: ExportProfile };
+type ZipEntry = { name: string; data: Uint8Array };
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Minimal STORE-only (uncompressed) ZIP writer; images are already compressed so deflate would gain little.
+function createZip(entries: ZipEntry[], date = new Date()): Blob {
+  const encoder = new TextEncoder();
+  const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const dosDate = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  const chunks: Uint8Array[] = [], central: Uint8Array[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); local.setUint16(4, 20, true); local.setUint16(6, 0x0800, true);
+    local.setUint16(10, dosTime, true); local.setUint16(12, dosDate, true); local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true); local.setUint32(22, entry.data.length, true); local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, entry.data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true); header.setUint16(4, 20, true); header.setUint16(6, 20, true); header.setUint16(8, 0x0800, true);
+    header.setUint16(12, dosTime, true); header.setUint16(14, dosDate, true); header.setUint32(16, crc, true);
+    header.setUint32(20, entry.data.length, true); header.setUint32(24, entry.data.length, true); header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + entry.data.length;
+  }
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); end.setUint16(8, entries.length, true); end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true); end.setUint32(16, offset, true);
+  return new Blob([...chunks, ...central, new Uint8Array(end.buffer)], { type: "application/zip" });
+}
+
+// Recipe JSON: the tool settings plus the follow-up chain that led to the shown result.
+const buildRecipe = (tools: ToolStates, refinement?: RefinementThread | null) => ({
+  schemaVersion: PRESET_SCHEMA_VERSION,
+  tools,
+  refinements: (refinement?.turns.slice(0, refinement.active + 1) ?? []).map(({ instruction, prompt }) => ({ instruction, prompt })),
+});
+
+const slugify = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+function renderFileName(template: string, item: BatchItem, index: number, total: number, date = new Date()): string {
+  const tools = item.preset;
+  const tokens: Record<string, string> = {
+    name: item.file.name.replace(/\.[^.]+$/, ""),
+    preset: item.presetName ? slugify(item.presetName) : "custom",
+    date: date.toISOString().slice(0, 10),
+    index: String(index + 1).padStart(String(total).length, "0"),
+    scale: tools?.superResolution.enabled ? tools.superResolution.upscale : "1x",
+  };
+  const name = template.replace(/\{(name|preset|date|index|scale)\}/g, (_, key: string) => tokens[key]).replace(/[\\/:*?"<>|]+/g, "-").trim();
+  return name || tokens.name;
+}
+
+async function exportItemsAsZip(items: BatchItem[], options: ExportOptions, onProgress?: (done: number) => void): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const used = new Set<string>();
+  const entries: ZipEntry[] = [];
+  for (const [i, item] of items.entries()) {
+    if (!item.result) continue;
+    const template = item.outputName ?? options.template;
+    let base = renderFileName(template, item, i, items.length);
+    for (let n = 2; used.has(base); n++) base = `${renderFileName(template, item, i, items.length)}-${n}`;
+    used.add(base);
+    const provenance = await buildProvenance(item.file, item.model, item.prompt, item.preset);
+    const format = options.profile?.format ?? options.format;
+    const data = options.profile
+      ? (await exportWithProfile(item.result, options.profile, item.file, provenance)).bytes
+      : await encodeWithMetadata(item.result, options.format, options.quality, item.file, provenance);
+    entries.push({ name: `${base}.${format === 'jpeg' ? 'jpg' : format}`, data });
+    if (options.includePrompt && item.prompt) entries.push({ name: `${base}-prompt.txt`, data: encoder.encode(item.prompt) });
+    if (options.includeRecipe && item.preset) entries.push({ name: `${base}-recipe.json`, data: encoder.encode(JSON.stringify(buildRecipe(item.preset, item.refinement), null, 2)) });
+    if (options.includeRecipe) entries.push({ name: `${base}-provenance.json`, data: encoder.encode(JSON.stringify(provenance, null, 2)) });
+    if (options.includeRecipe && item.mask) entries.push({ name: `${base}-mask.png`, data: new Uint8Array(await (await dataUrlToBlob(item.mask.data)).arrayBuffer()) });
+    onProgress?.(i + 1);
+  }
+  return createZip(entries);
+}
+
+/* ---------- workspace projects ---------- */
+// project.json: the Workspace with every data URL replaced by a PROJECT_IMAGE_REF path to an image stored next to it in the ZIP.
+type ProjectManifest = { format: typeof PROJECT_FORMAT; version: number; schemaVersion: number; savedAt: string; workspace: Workspace };
+
+const PROJECT_IMAGE_REF = "project-image:";
+const PROJECT_IMAGE_EXTENSIONS: Record<string, string> = { "image/png": "png", "image/jpeg": "jpg", "image/webp": "webp" };
+const BATCH_STATUSES: BatchItem["status"][] = ['pending', 'processing', 'retrying', 'done', 'error', 'cancelled'];
+
+// In-flight work cannot be resumed mid-request, so it is saved as pending.
+const captureWorkspace = (state: AppState): Workspace => ({
+  currentImage: state.currentImage, enhancedImage: state.enhancedImage, enhancedBase: state.enhancedBase, mask: state.mask,
+  activeItemId: state.activeItemId, refinement: state.refinement, currentPrompt: state.currentPrompt, tools: state.tools,
+  history: state.history, historyIndex: state.historyIndex, savedHistories: state.savedHistories, promptTemplates: state.promptTemplates,
+  batchQueue: state.batchQueue.map(({ progress, ...item }) => item.status === 'processing' || item.status === 'retrying' ? { ...item, status: 'pending' } : item),
+  batchConcurrency: state.batchConcurrency,
+});
+
+const workspaceImageCount = (ws: Workspace) => new Set([ws.currentImage?.data, ...ws.batchQueue.map(item => item.file.data)].filter(Boolean)).size;
+
+function restoredMessage(prefix: string, ws: Workspace): string {
+  const pending = ws.batchQueue.filter(item => item.status === 'pending').length;
+  return [prefix, `${workspaceImageCount(ws)} image(s).`, pending > 0 && `Batch paused with ${pending} pending.`].filter(Boolean).join(" ");
+}
+
+const buildProjectManifest = (workspace: Workspace, date = new Date()): ProjectManifest =>
+  ({ format: PROJECT_FORMAT, version: PROJECT_VERSION, schemaVersion: PRESET_SCHEMA_VERSION, savedAt: date.toISOString(), workspace });
+
+function bytesToDataUrl(bytes: Uint8Array, type: string): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return `data:${type};base64,${btoa(binary)}`;
+}
+
+// Each distinct image is stored once, named by its content hash, however often the workspace refers to it.
+function packProject(workspace: Workspace): Blob {
+  const images = new Map<string, ZipEntry>();
+  const json = JSON.stringify(buildProjectManifest(workspace), (_, value) => {
+    if (typeof value !== "string" || !value.startsWith("data:") || !value.includes(";base64,")) return value;
+    const type = value.slice(5, value.indexOf(";"));
+    const name = `images/${hashString(value)}.${PROJECT_IMAGE_EXTENSIONS[type] ?? "bin"}`;
+    if (!images.has(name)) images.set(name, { name, data: dataUrlToBytes(value) });
+    return `${PROJECT_IMAGE_REF}${name}`;
+  }, 2);
+  return createZip([{ name: "project.json", data: new TextEncoder().encode(json) }, ...images.values()]);
+}
+
+// Reads archives written by createZip; compressed entries are rejected rather than inflated.
+function readZip(bytes: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("Not a ZIP archive.");
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+  let offset = view.getUint32(end + 16, true);
+  for (let i = view.getUint16(end + 10, true); i > 0; i--) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error("The ZIP directory is damaged.");
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    if (view.getUint16(offset + 10, true) !== 0) throw new Error(`${name} is compressed; re-save the project from the app.`);
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    files.set(name, bytes.subarray(start, start + size));
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+  return files;
+}
+
+async function unpackProject(file: Blob): Promise<ProjectManifest> {
+  const files = readZip(new Uint8Array(await file.arrayBuffer()));
+  const manifest = files.get("project.json");
+  if (!manifest) throw new Error("Not a project file: project.json is missing.");
+  const data = JSON.parse(new TextDecoder().decode(manifest), (_, value) => {
+    if (typeof value !== "string" || !value.startsWith(PROJECT_IMAGE_REF)) return value;
+    const name = value.slice(PROJECT_IMAGE_REF.length);
+    const bytes = files.get(name);
+    if (!bytes) throw new Error(`The project is missing ${name}.`);
+    const ext = name.slice(name.lastIndexOf(".") + 1);
+    return bytesToDataUrl(bytes, Object.keys(PROJECT_IMAGE_EXTENSIONS).find(type => PROJECT_IMAGE_EXTENSIONS[type] === ext) ?? "application/octet-stream");
+  });
+  return parseProjectManifest(data);
+}
+
+const isImageFile = (value: unknown): value is ImageFile =>
+  isRecord(value) && typeof value.name === "string" && typeof value.type === "string" && typeof value.data === "string" && value.data.startsWith("data:");
+const optionalString = (value: unknown) => typeof value === "string" ? value : null;
+const isDataUrl = (value: unknown): value is string => typeof value === "string" && value.startsWith("data:");
+
+// Tools are migrated from the manifest's schemaVersion; malformed parts fall back to empty rather than failing the whole project.
+function parseProjectManifest(data: unknown): ProjectManifest {
+  if (!isRecord(data) || data.format !== PROJECT_FORMAT) throw new Error("Not an AI Portrait Studio project.");
+  if (typeof data.version !== "number" || data.version > PROJECT_VERSION) throw new Error(`Project version ${data.version} is newer than this app supports (${PROJECT_VERSION}).`);
+  const version = typeof data.schemaVersion === "number" ? data.schemaVersion : 1;
+  if (version > PRESET_SCHEMA_VERSION) throw new Error(`Project schemaVersion ${version} is newer than this app supports (${PRESET_SCHEMA_VERSION}).`);
+  const ws = data.workspace;
+  if (!isRecord(ws)) throw new Error("The project has no workspace.");
+
+  const toTools = (raw: unknown) => validateTools(raw, version).tools;
+  const toHistory = (raw: unknown): HistoryEntry[] => (Array.isArray(raw) ? raw : []).filter(isRecord).map(entry => ({
+    tools: toTools(entry.tools), label: typeof entry.label === "string" ? entry.label : "Edit",
+    ...(typeof entry.key === "string" && { key: entry.key }), at: typeof entry.at === "number" ? entry.at : 0,
+  }));
+  const toText = (raw: unknown) => typeof raw === "string" ? raw : undefined;
+  const toNumber = (raw: unknown) => typeof raw === "number" && Number.isFinite(raw) ? raw : undefined;
+  const toIndex = (raw: unknown, length: number) => typeof raw === "number" ? Math.min(length - 1, Math.max(0, Math.round(raw))) : length - 1;
+  const toMask = (raw: unknown): ImageMask | null => isRecord(raw) && typeof raw.data === "string" && (raw.scope === "removal" || raw.scope === "all") ? { data: raw.data, scope: raw.scope } : null;
+  const toTurn = (raw: unknown): RefinementTurn | null =>
+    isRecord(raw) && typeof raw.id === "string" && typeof raw.instruction === "string" && typeof raw.prompt === "string" && isDataUrl(raw.image) && typeof raw.createdAt === "number"
+      ? { id: raw.id, instruction: raw.instruction, prompt: raw.prompt, image: raw.image, createdAt: raw.createdAt } : null;
+  // Each turn refines the one before it, so the thread stops at the first malformed turn.
+  const toRefinement = (raw: unknown): RefinementThread | null => {
+    if (!isRecord(raw) || !isDataUrl(raw.base) || !Array.isArray(raw.turns)) return null;
+    const turns: RefinementTurn[] = [];
+    for (const turn of raw.turns.map(toTurn)) { if (!turn) break; turns.push(turn); }
+    const active = typeof raw.active === "number" ? Math.min(turns.length - 1, Math.max(-1, Math.round(raw.active))) : turns.length - 1;
+    return { base: raw.base, turns, active };
+  };
+
+  const toMetrics = (raw: unknown): QualityMetrics | undefined => {
+    if (!isRecord(raw)) return undefined;
+    const ssim = toNumber(raw.ssim), psnr = toNumber(raw.psnr), histogramShift = toNumber(raw.histogramShift);
+    return ssim === undefined || psnr === undefined || histogramShift === undefined ? undefined : { ssim, psnr, histogramShift };
+  };
+  // Stored text wins over the kind's defaults, since classifyError tailors it (blocked categories, the setting to blame).
+  const toFailure = (raw: unknown): ErrorInfo | undefined => {
+    const kind = isRecord(raw) ? (Object.keys(ERROR_KINDS) as ErrorKind[]).find(k => k === raw.kind) : undefined;
+    if (!isRecord(raw) || !kind) return undefined;
+    const defaults = ERROR_KINDS[kind];
+    return {
+      kind, title: toText(raw.title) ?? defaults.title, explanation: toText(raw.explanation) ?? defaults.explanation, fix: toText(raw.fix) ?? defaults.fix,
+      retryable: typeof raw.retryable === "boolean" ? raw.retryable : defaults.retryable, detail: toText(raw.detail) ?? "",
+      status: toNumber(raw.status), finishReason: toText(raw.finishReason), retryAfterMs: toNumber(raw.retryAfterMs),
+    };
+  };
+  // Items that were still running come back as pending; their tile progress is dropped.
+  const toBatchItem = (raw: unknown): BatchItem[] => {
+    const status = isRecord(raw) ? BATCH_STATUSES.find(s => s === raw.status) : undefined;
+    if (!isRecord(raw) || typeof raw.id !== "string" || !isImageFile(raw.file) || !status) return [];
+    return [{
+      id: raw.id, file: raw.file, status: status === 'processing' || status === 'retrying' ? 'pending' : status,
+      result: isDataUrl(raw.result) ? raw.result : undefined, prompt: toText(raw.prompt), error: toText(raw.error), failure: toFailure(raw.failure), attempts: toNumber(raw.attempts),
+      preset: raw.preset === undefined ? undefined : toTools(raw.preset), presetName: toText(raw.presetName),
+      promptTemplates: raw.promptTemplates === undefined ? undefined : validatePromptTemplates(raw.promptTemplates).templates,
+      mask: toMask(raw.mask) ?? undefined, refinement: toRefinement(raw.refinement) ?? undefined, parentId: toText(raw.parentId),
+      model: toText(raw.model), metrics: toMetrics(raw.metrics), outputName: toText(raw.outputName),
+      cached: typeof raw.cached === "boolean" ? raw.cached : undefined, refreshCache: typeof raw.refreshCache === "boolean" ? raw.refreshCache : undefined,
+    }];
+  };
+
+  const tools = toTools(ws.tools);
+  const history = toHistory(ws.history);
+  if (history.length === 0) history.push({ tools, label: "Start", at: 0 });
+  const savedHistories: Workspace["savedHistories"] = {};
+  if (isRecord(ws.savedHistories)) Object.entries(ws.savedHistories).forEach(([key, saved]) => {
+    if (!isRecord(saved)) return;
+    const entries = toHistory(saved.entries);
+    if (entries.length > 0) savedHistories[key] = { entries, index: toIndex(saved.index, entries.length) };
+  });
+  const batchQueue = (Array.isArray(ws.batchQueue) ? ws.batchQueue : []).flatMap(toBatchItem);
+
+  return {
+    format: PROJECT_FORMAT, version: data.version, schemaVersion: PRESET_SCHEMA_VERSION,
+    savedAt: typeof data.savedAt === "string" ? data.savedAt : new Date(0).toISOString(),
+    workspace: {
+      currentImage: isImageFile(ws.currentImage) ? ws.currentImage : null,
+      enhancedImage: optionalString(ws.enhancedImage), enhancedBase: optionalString(ws.enhancedBase), mask: toMask(ws.mask),
+      activeItemId: optionalString(ws.activeItemId), refinement: toRefinement(ws.refinement), currentPrompt: optionalString(ws.currentPrompt) ?? "",
+      tools, history, historyIndex: toIndex(ws.historyIndex, history.length), savedHistories,
+      promptTemplates: validatePromptTemplates(ws.promptTemplates).templates,
+      batchQueue, batchConcurrency: typeof ws.batchConcurrency === "number" && ws.batchConcurrency >= 1 ? Math.min(BATCH_MAX_CONCURRENCY, Math.round(ws.batchConcurrency)) : BATCH_CONCURRENCY,
+    },
+  };
+}
+
+// The last workspace, kept in IndexedDB (data URLs inline) so a reload picks up where the user left off.
+const sessionStore = {
+  async load(): Promise<ProjectManifest | null> {
+    const db = await openDb();
+    const data = await idbRequest<unknown>(db.transaction("session").objectStore("session").get("current"));
+    return data === undefined ? null : parseProjectManifest(data);
+  },
+  async save(workspace: Workspace): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction("session", "readwrite");
+    if (workspace.currentImage || workspace.batchQueue.length > 0) tx.objectStore("session").put(buildProjectManifest(workspace), "current");
+    else tx.objectStore("session").delete("current");
+    await idbDone(tx);
+  },
+};
+
+/* ---------- metadata ---------- */
+// Metadata carried over from the uploaded original. `exif` is the raw TIFF block (without the "Exif\0\0" header).
+// `dpi` is not read from the original; it is the output resolution requested by an export profile.
+type ImageMetadata = { exif?: Uint8Array; icc?: Uint8Array; xmp?: string; orientation?: number; dpi?: number };
+// AI-edit disclosure embedded as XMP and written as a sidecar in ZIP exports.
+type Provenance = { aiEdited: true; digitalSourceType: string; software: string; model?: ModelName; promptSha256?: string; tools?: ToolStates; sourceFile: string;
+  sourceWidth?: number; sourceHeight?: number; editedAt: string };
+
+const PROVENANCE_NS = "urn:ai-portrait-studio:provenance:1";
+// IPTC code for media edited with a trained algorithmic model.
+const IPTC_AI_EDITED = "http://cv.iptc.org/newscodes/digitalsourcetype/compositeWithTrainedAlgorithmicMedia";
+const JPEG_EXIF_HEADER = "Exif\0\0";
+const JPEG_XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+const JPEG_ICC_HEADER = "ICC_PROFILE\0";
+const JPEG_ICC_CHUNK = 65519;
+
+const latin1 = (bytes: Uint8Array, start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+const startsWith = (bytes: Uint8Array, text: string, offset = 0) => latin1(bytes, offset, offset + text.length) === text;
+const asciiBytes = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+const concatBytes = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  parts.reduce((offset, p) => { out.set(p, offset); return offset + p.length; }, 0);
+  return out;
+};
+
+function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate"))).arrayBuffer());
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new CompressionStream("deflate"))).arrayBuffer());
+}
+
+// Finds an IFD0 entry by tag; returns the offset of its value field so it can be rewritten in place.
+function exifEntryOffset(tiff: Uint8Array, tag: number): { offset: number; little: boolean } | null {
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = startsWith(tiff, "II");
+  const ifd = view.getUint32(4, little);
+  if (ifd + 2 > tiff.length) return null;
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) return null;
+    if (view.getUint16(entry, little) === tag) return { offset: entry + 8, little };
+  }
+  return null;
+}
+
+// Pixels are always exported upright, so Orientation is reset to 1. IFD1 (the embedded thumbnail of the unedited photo) is unlinked.
+// With a dpi, existing X/YResolution rationals are rewritten and the unit set to inches.
+function normalizeExif(tiff: Uint8Array, dpi?: number): Uint8Array {
+  const out = tiff.slice();
+  const view = new DataView(out.buffer);
+  const orientation = exifEntryOffset(out, 0x0112);
+  if (orientation) view.setUint16(orientation.offset, 1, orientation.little);
+  if (dpi) {
+    [0x011a, 0x011b].forEach(tag => {
+      const entry = exifEntryOffset(out, tag);
+      const at = entry && view.getUint32(entry.offset, entry.little);
+      if (entry && at && at + 8 <= out.length) { view.setUint32(at, dpi, entry.little); view.setUint32(at + 4, 1, entry.little); }
+    });
+    const unit = exifEntryOffset(out, 0x0128);
+    if (unit) view.setUint16(unit.offset, 2, unit.little);
+  }
+  const little = startsWith(out, "II");
+  const ifd = view.getUint32(4, little);
+  const next = ifd + 2 + view.getUint16(ifd, little) * 12;
+  if (next + 4 <= out.length) view.setUint32(next, 0, little);
+  return out;
+}
+
+type RiffChunk = { id: string; data: Uint8Array };
+
+function readRiffChunks(bytes: Uint8Array): RiffChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ id: latin1(bytes, offset, offset + 4), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+}
+
+async function readImageMetadata(dataUrl: string): Promise<ImageMetadata> {
+  const bytes = dataUrlToBytes(dataUrl);
+  const meta: ImageMetadata = {};
+  const view = new DataView(bytes.buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    const icc: { seq: number; data: Uint8Array }[] = [];
+    for (let offset = 2; offset + 4 <= bytes.length && bytes[offset] === 0xff;) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xda || marker === 0xd9) break;
+      const length = view.getUint16(offset + 2);
+      const segment = bytes.subarray(offset + 4, offset + 2 + length);
+      if (marker === 0xe1 && startsWith(segment, JPEG_EXIF_HEADER)) meta.exif = segment.slice(JPEG_EXIF_HEADER.length);
+      else if (marker === 0xe1 && startsWith(segment, JPEG_XMP_HEADER)) meta.xmp = new TextDecoder().decode(segment.subarray(JPEG_XMP_HEADER.length));
+      else if (marker === 0xe2 && startsWith(segment, JPEG_ICC_HEADER)) icc.push({ seq: segment[12], data: segment.subarray(14) });
+      offset += 2 + length;
     }
-    case "UNDO":
-      if (state.historyIndex > 0) {
-        const i = state.historyIndex - 1;
-        return { ...state, historyIndex: i, tools: state.history[i].tools };
-      }
-      return state;
-    case "REDO":
-      if (state.historyIndex < state.history.length - 1) {
-        const i = state.historyIndex + 1;
-        return { ...state, historyIndex: i, tools: state.history[i].tools };
+    if (icc.length) meta.icc = concatBytes(icc.sort((a, b) => a.seq - b.seq).map(c => c.data));
+  } else if (startsWith(bytes, "\x89PNG")) {
+    for (let offset = 8; offset + 12 <= bytes.length;) {
+      const length = view.getUint32(offset), type = latin1(bytes, offset + 4, offset + 8);
+      const data = bytes.subarray(offset + 8, offset + 8 + length);
+      if (type === "eXIf") meta.exif = data.slice();
+      else if (type === "iCCP") meta.icc = await inflate(data.subarray(data.indexOf(0) + 2));
+      else if (type === "iTXt" && startsWith(data, "XML:com.adobe.xmp\0")) {
+        // keyword\0, compression flag, method, language\0, translated keyword\0, text
+        let p = data.indexOf(0) + 3;
+        p = data.indexOf(0, p) + 1;
+        p = data.indexOf(0, p) + 1;
+        meta.xmp = new TextDecoder().decode(data[data.indexOf(0) + 1] ? await inflate(data.subarray(p)) : data.subarray(p));
       }
-      return state;
-    case "SET_IMAGE": 
-        return { ...state, currentImage: action.payload, enhancedImage: null, isLoading: false, history: [{ tools: state.tools }], historyIndex: 0 };
-    case "SELECT_BATCH_ITEM":
-        return { ...state, currentImage: action.payload.file, enhancedImage: action.payload.result || null, tools: action.payload.preset || state.tools, history: [{ tools: action.payload.preset || state.tools }], historyIndex: 0 };
-    case "ENHANCE_START": return { ...state, isLoading: true, enhancedImage: null };
-    case "ENHANCE_SUCCESS": return { ...state, isLoading: false, enhancedImage: action.payload.image, currentPrompt: action.payload.prompt };
-    case "ENHANCE_FAILURE": return { ...state, isLoading: false };
-    case "SHOW_TOAST": return { ...state, toast: { id: Date.now(), ...action.payload } };
-    case "HIDE_TOAST": return { ...state, toast: null };
-    case "RESET_STATE": return { ...initialState, currentImage: state.currentImage, userPresets: state.userPresets, showBuiltInPresets: state.showBuiltInPresets, batchQueue: state.batchQueue, enhancedLibrary: state.enhancedLibrary };
-    case "TOGGLE_BUILTIN_PRESETS": return { ...state, showBuiltInPresets: !state.showBuiltInPresets };
-    case "SAVE_PRESET": return { ...state, userPresets: [...state.userPresets, action.payload.preset] };
-    case "LOAD_PRESET": {
-      const newHistory = [...state.history.slice(0, state.historyIndex + 1), { tools: action.payload.tools }];
-      return { ...state, tools: action.payload.tools, history: newHistory, historyIndex: newHistory.length - 1 };
-    }
-    case "DELETE_PRESET": return { ...state, userPresets: state.userPresets.filter(p => p.id !== action.payload.id) };
-    case "RENAME_PRESET": return { ...state, userPresets: state.userPresets.map(p => p.id === action.payload.id ? { ...p, name: action.payload.name } : p) };
-    case "IMPORT_PRESETS": {
-      const incomingPresets = action.payload.presets.filter(p => p.id && p.name && p.tools && !p.isBuiltIn);
-      const updatedPresets = [...state.userPresets];
-      incomingPresets.forEach(p => { if (!updatedPresets.some(up => up.id === p.id)) { updatedPresets.push(p); } });
-      return { ...state, userPresets: updatedPresets };
+      else if (type === "IEND") break;
+      offset += 12 + length;
     }
-    case "ADD_TO_BATCH": {
-        const newItems: BatchItem[] = action.payload.files.map(file => ({
-            id: `${file.name}-${Date.now()}-${Math.random()}`, file, status: 'pending', preset: state.tools
-        }));
-        return { ...state, batchQueue: [...state.batchQueue, ...newItems] };
+  } else if (startsWith(bytes, "RIFF") && startsWith(bytes, "WEBP", 8)) {
+    for (const chunk of readRiffChunks(bytes)) {
+      if (chunk.id === "EXIF") meta.exif = (startsWith(chunk.data, JPEG_EXIF_HEADER) ? chunk.data.subarray(JPEG_EXIF_HEADER.length) : chunk.data).slice();
+      else if (chunk.id === "ICCP") meta.icc = chunk.data.slice();
+      else if (chunk.id === "XMP ") meta.xmp = new TextDecoder().decode(chunk.data);
     }
-    case "UPDATE_BATCH_ITEM": return { ...state, batchQueue: state.batchQueue.map(item => item.id === action.payload.id ? { ...item, ...action.payload } : item) };
-    case "CLEAR_BATCH": return { ...state, batchQueue: [] };
-    case "APPLY_PRESET_TO_BATCH": return { ...state, batchQueue: state.batchQueue.map(item => item.status === 'pending' ? { ...item, preset: action.payload.tools } : item) };
-    case "SET_ENHANCED_IMAGE": return { ...state, enhancedImage: action.payload };
-    case "ADD_TO_LIBRARY": return { ...state, enhancedLibrary: [action.payload.item, ...state.enhancedLibrary.filter(item => item.id !== action.payload.item.id)] };
-    case "REMOVE_FROM_LIBRARY": return { ...state, enhancedLibrary: state.enhancedLibrary.filter(item => item.id !== action.payload.id) };
-    case "CLEAR_LIBRARY": return { ...state, enhancedLibrary: [] };
-    case "LOAD_LIBRARY": return { ...state, enhancedLibrary: action.payload.library };
-    default: return state;
   }
-};
+  if (meta.exif) {
+    const orientation = exifEntryOffset(meta.exif, 0x0112);
+    if (orientation) meta.orientation = new DataView(meta.exif.buffer, meta.exif.byteOffset).getUint16(orientation.offset, orientation.little);
+  }
+  return meta;
+}
 
-const AppContext = createContext<{ state: AppState; dispatch: React.Dispatch<Action> } | undefined>(undefined);
-const AppProvider = ({ children }: { children: React.ReactNode }) => {
-  const [state, dispatch] = useReducer(appReducer, initialState);
-  return <AppContext.Provider value={{ state, dispatch }}>{children}</AppContext.Provider>;
-};
-const useAppContext = () => {
-  const ctx = useContext(AppContext);
-  if (!ctx) throw new Error("useAppContext must be used within an AppProvider");
-  return ctx;
-};
+const escapeXml = (value: string) => value.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
 
-/* ---------- presets ---------- */
-const BUILT_IN_PRESETS: Readonly<Preset[]> = [
-    {
-        id: 'builtin_linkedin', name: 'LinkedIn Clean', isBuiltIn: true,
-        tools: { ...initialToolStates,
-            superResolution: { enabled: true, upscale: '2x' },
-            colorTone: { ...initialToolStates.colorTone, enabled: true, exposure: 1, contrast: 1 },
-            facialRetouch: { ...initialToolStates.facialRetouch, enabled: true, intensity: 'low', eyeEnhance: true, teethWhiten: true },
-            distractions: { enabled: true, list: 'minor lint on collar, stray hairs' },
-        }
-    },
-    {
-        id: 'builtin_studio', name: 'Studio Neutral', isBuiltIn: true,
-        tools: { ...initialToolStates,
-            superResolution: { enabled: true, upscale: '2x' },
-            colorTone: { ...initialToolStates.colorTone, enabled: true },
-            facialRetouch: { ...initialToolStates.facialRetouch, enabled: true, intensity: 'low' },
-            background: { ...initialToolStates.background, enabled: true, mode: 'solid', solidColor: '#e0e0e0' }
-        }
-    },
-    {
-        id: 'builtin_warm', name: 'Soft Warm', isBuiltIn: true,
-        tools: { ...initialToolStates,
-            superResolution: { enabled: true, upscale: '2x' },
-            colorTone: { ...initialToolStates.colorTone, enabled: true, temp: 2, vibrance: 2, skinTone: 'slightly warm' },
-            facialRetouch: { ...initialToolStates.facialRetouch, enabled: true, intensity: 'low' },
-        }
+const sha256Hex = async (text: string) =>
+  [...new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)))].map(b => b.toString(16).padStart(2, "0")).join("");
+
+async function buildProvenance(source: ImageFile, model?: ModelName, prompt?: string, tools?: ToolStates): Promise<Provenance> {
+  return {
+    aiEdited: true, digitalSourceType: IPTC_AI_EDITED, software: "AI Portrait Studio", model,
+    promptSha256: prompt ? await sha256Hex(prompt) : undefined, tools, sourceFile: source.name,
+    sourceWidth: source.source?.width, sourceHeight: source.source?.height, editedAt: new Date().toISOString(),
+  };
+}
+
+// Adds the provenance as its own rdf:Description, keeping the original packet (copyright, creator, ...) intact.
+function buildXmp(provenance: Provenance, original?: string): string {
+  const attrs = [
+    `xmlns:xmp="http://ns.adobe.com/xap/1.0/"`, `xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"`, `xmlns:aips="${PROVENANCE_NS}"`,
+    `xmp:CreatorTool="${escapeXml(provenance.software)}"`, `xmp:ModifyDate="${provenance.editedAt}"`,
+    `Iptc4xmpExt:DigitalSourceType="${provenance.digitalSourceType}"`, `aips:AIEdited="True"`, `aips:SourceFile="${escapeXml(provenance.sourceFile)}"`,
+    provenance.sourceWidth && `aips:SourceWidth="${provenance.sourceWidth}"`, provenance.sourceHeight && `aips:SourceHeight="${provenance.sourceHeight}"`,
+    provenance.model && `aips:Model="${escapeXml(provenance.model)}"`,
+    provenance.promptSha256 && `aips:PromptSHA256="${provenance.promptSha256}"`,
+    provenance.tools && `aips:ToolSettings="${escapeXml(JSON.stringify(provenance.tools))}"`,
+  ].filter(Boolean).join("\n    ");
+  const description = `  <rdf:Description rdf:about=""\n    ${attrs}/>\n`;
+  if (original?.includes("</rdf:RDF>")) return original.replace("</rdf:RDF>", `${description}</rdf:RDF>`);
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+${description} </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  const out = new Uint8Array(4 + payload.length);
+  out[0] = 0xff; out[1] = marker; out[2] = (payload.length + 2) >> 8; out[3] = (payload.length + 2) & 0xff;
+  out.set(payload, 4);
+  return out;
+}
+
+function embedJpeg(bytes: Uint8Array, meta: ImageMetadata, xmp?: string): Uint8Array {
+  const segments: Uint8Array[] = [];
+  const exifPayload = meta.exif && concatBytes([asciiBytes(JPEG_EXIF_HEADER), normalizeExif(meta.exif, meta.dpi)]);
+  if (exifPayload && exifPayload.length <= 65533) segments.push(jpegSegment(0xe1, exifPayload));
+  const xmpPayload = xmp && concatBytes([asciiBytes(JPEG_XMP_HEADER), new TextEncoder().encode(xmp)]);
+  if (xmpPayload && xmpPayload.length <= 65533) segments.push(jpegSegment(0xe1, xmpPayload));
+  if (meta.icc) {
+    const total = Math.ceil(meta.icc.length / JPEG_ICC_CHUNK);
+    for (let i = 0; i < total && total < 256; i++) {
+      segments.push(jpegSegment(0xe2, concatBytes([asciiBytes(JPEG_ICC_HEADER), Uint8Array.of(i + 1, total), meta.icc.subarray(i * JPEG_ICC_CHUNK, (i + 1) * JPEG_ICC_CHUNK)])));
     }
-];
+  }
+  // Keep the encoder's JFIF APP0 first; drop any metadata segments it wrote itself.
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const head: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff && bytes[offset + 1] >= 0xe0 && bytes[offset + 1] <= 0xef) {
+    const end = offset + 2 + view.getUint16(offset + 2);
+    if (bytes[offset + 1] === 0xe0) head.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  if (meta.dpi) {
+    // JFIF density: units (1 = dots per inch) followed by X and Y density.
+    const jfif = head.length > 1 && startsWith(head[1], "JFIF\0", 4) ? head[1].slice() : jpegSegment(0xe0, Uint8Array.of(0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0));
+    jfif[11] = 1; jfif[12] = meta.dpi >> 8; jfif[13] = meta.dpi & 0xff; jfif[14] = meta.dpi >> 8; jfif[15] = meta.dpi & 0xff;
+    head.splice(1, head.length > 1 && startsWith(head[1], "JFIF\0", 4) ? 1 : 0, jfif);
+  }
+  return concatBytes([...head, ...segments, bytes.subarray(offset)]);
+}
 
-/* ---------- prompt + AI ---------- */
-const buildPrompt = (t: ToolStates): string => {
-  const ops: string[] = [];
-  if (t.superResolution.enabled) ops.push(`SUPER RESOLUTION: Perform a high-quality ${t.superResolution.upscale} super-resolution upscale, effectively doubling the image's pixel dimensions. The primary goal is to reconstruct and synthesize photorealistic fine details. Enhance textures like skin pores, individual hair strands, and fabric weaves with exceptional clarity. The final image must be sharp and artifact-free. Do not simply enlarge and smooth the image; new, believable detail must be generated.`);
-  if (t.colorTone.enabled) {
-    let wb = `WB ${t.colorTone.whiteBalance}`;
-    if (t.colorTone.whiteBalance === "custom") wb += ` (temp:${t.colorTone.temp}, tint:${t.colorTone.tint})`;
-    ops.push(`COLOR & EXPOSURE: ${wb}; exposure ${t.colorTone.exposure}; contrast ${t.colorTone.contrast}; highlights/shadows recover; vibrance ${t.colorTone.vibrance}; saturation ${t.colorTone.saturation}; skin tone ${t.colorTone.skinTone}.`);
-  }
-  if (t.facialRetouch.enabled) ops.push(`FACIAL RETOUCH (SUBTLE): intensity ${t.facialRetouch.intensity}; eyes ${t.facialRetouch.eyeEnhance ? "on" : "off"}; teeth ${t.facialRetouch.teethWhiten ? "on" : "off"}; keep pores/texture; reduce shine; soften fine wrinkles/under-eye; reduce glasses glare; DO NOT change identity/age/facial structure/expression.`);
-  if (t.preserveDetails.enabled) ops.push(`PRESERVE DETAILS (${t.preserveDetails.strength.toUpperCase()}): Meticulously preserve unique, defining facial features like moles, scars, freckles, and birthmarks. Do not remove, soften, or alter them. Ensure original skin and fabric textures are fully maintained.`);
-  if (t.hairStyling.enabled && t.hairStyling.mode !== 'keep') {
-    let hair = `mode: ${t.hairStyling.mode}`;
-    if (t.hairStyling.mode === 'color') hair += `, color: ${t.hairStyling.color}`;
-    if (t.hairStyling.mode === 'custom') hair += `, instruction: "${t.hairStyling.customInstruction}"`;
-    ops.push(`HAIR STYLING: ${hair}; maintain realistic texture/shine; precise masking; no color bleed.`);
-  }
-  if (t.background.enabled) {
-    let bg = `mode: ${t.background.mode}`;
-    if (t.background.mode === "solid") bg += `, color: ${t.background.solidColor}`;
-    if (t.background.mode === "custom") bg += `, instruction: "${t.background.customInstruction}"`;
-    ops.push(`BACKGROUND: ${bg}; hair-safe matting; realistic shadows; no halos/spill.`);
-  }
-  if (t.crop.enabled) ops.push(`CROP/ROTATE: aspect ${t.crop.aspectRatio}; straightened; safe headroom; keep ears/hair.`);
-  if (t.distractions.enabled && t.distractions.list.trim()) ops.push(`OBJECT REMOVAL: Carefully and seamlessly remove the following distractions: "${t.distractions.list.trim()}". Fill the area with realistic, context-aware content. The edit must be undetectable.`);
-  if (t.noiseAndOptics.enabled) {
-    const corrections = [];
-    if (t.noiseAndOptics.lumaNoise > 0) corrections.push(`luma noise reduction (${t.noiseAndOptics.lumaNoise}/10)`);
-    if (t.noiseAndOptics.chromaNoise > 0) corrections.push(`chroma noise reduction (${t.noiseAndOptics.chromaNoise}/10)`);
-    if (t.noiseAndOptics.caFix > 0) corrections.push(`chromatic aberration correction (${t.noiseAndOptics.caFix}/10)`);
-    if (t.noiseAndOptics.vignette !== 0) corrections.push(`vignette correction (${t.noiseAndOptics.vignette}/10)`);
-    if (t.noiseAndOptics.distortion !== 0) corrections.push(`lens distortion correction (${t.noiseAndOptics.distortion}/10)`);
-    if (corrections.length > 0) ops.push(`NOISE & OPTICS CORRECTION: ${corrections.join(', ')}.`);
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const body = concatBytes([asciiBytes(type), data]);
+  const out = new Uint8Array(body.length + 8);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(body, 4);
+  view.setUint32(out.length - 4, crc32(body));
+  return out;
+}
+
+async function embedPng(bytes: Uint8Array, meta: ImageMetadata, xmp?: string): Promise<Uint8Array> {
+  const extra: Uint8Array[] = [];
+  if (meta.icc) extra.push(pngChunk("iCCP", concatBytes([asciiBytes("ICC profile\0\0"), await deflate(meta.icc)])));
+  if (meta.exif) extra.push(pngChunk("eXIf", normalizeExif(meta.exif, meta.dpi)));
+  if (xmp) extra.push(pngChunk("iTXt", concatBytes([asciiBytes("XML:com.adobe.xmp\0\0\0\0\0"), new TextEncoder().encode(xmp)])));
+  if (meta.dpi) {
+    const phys = new DataView(new ArrayBuffer(9));
+    const ppm = Math.round(meta.dpi / 0.0254);
+    phys.setUint32(0, ppm); phys.setUint32(4, ppm); phys.setUint8(8, 1);
+    extra.push(pngChunk("pHYs", new Uint8Array(phys.buffer)));
   }
-  
-  const numberedOps = ops.map((op, i) => `${i + 1}) ${op}`).join("\n");
+  // An embedded profile supersedes sRGB/gAMA/cHRM, which must not appear alongside iCCP.
+  const replaced = new Set(["iCCP", "eXIf", ...(meta.icc ? ["sRGB", "gAMA", "cHRM"] : []), ...(meta.dpi ? ["pHYs"] : [])]);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  for (let offset = 8; offset + 12 <= bytes.length;) {
+    const length = view.getUint32(offset), type = latin1(bytes, offset + 4, offset + 8);
+    const chunk = bytes.subarray(offset, offset + 12 + length);
+    if (!replaced.has(type) && !(type === "iTXt" && startsWith(chunk, "XML:com.adobe.xmp\0", 8))) parts.push(chunk);
+    if (type === "IHDR") parts.push(...extra);
+    offset += 12 + length;
+  }
+  return concatBytes(parts);
+}
 
-  return `Enhance this PORTRAIT while preserving identity and realism.
+function riffChunk(id: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(8 + data.length + (data.length & 1));
+  out.set(asciiBytes(id));
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+}
 
-ORDER OF OPERATIONS:
-${numberedOps}
+// Canvas and image size from the VP8/VP8L bitstream header, for building the VP8X extended header.
+function webpInfo(chunks: RiffChunk[]): { width: number; height: number; alpha: boolean } | null {
+  const vp8x = chunks.find(c => c.id === "VP8X");
+  if (vp8x) return { width: 1 + (vp8x.data[4] | vp8x.data[5] << 8 | vp8x.data[6] << 16), height: 1 + (vp8x.data[7] | vp8x.data[8] << 8 | vp8x.data[9] << 16), alpha: !!(vp8x.data[0] & 0x10) };
+  const vp8 = chunks.find(c => c.id === "VP8 ");
+  if (vp8) return { width: (vp8.data[6] | vp8.data[7] << 8) & 0x3fff, height: (vp8.data[8] | vp8.data[9] << 8) & 0x3fff, alpha: false };
+  const vp8l = chunks.find(c => c.id === "VP8L");
+  if (!vp8l) return null;
+  const bits = vp8l.data[1] | vp8l.data[2] << 8 | vp8l.data[3] << 16 | vp8l.data[4] << 24;
+  return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, alpha: !!((bits >>> 28) & 1) };
+}
 
-CONSISTENCY: same intensity across faces; consistent skin tone.
-LIMITS: no style transfer; no makeup/clothing/body reshaping/new objects.
-OUTPUT: single high-res PNG (sRGB).`;
-};
+function embedWebp(bytes: Uint8Array, meta: ImageMetadata, xmp?: string): Uint8Array {
+  const chunks = readRiffChunks(bytes);
+  const info = webpInfo(chunks);
+  if (!info) return bytes;
+  const header = new Uint8Array(10);
+  header[0] = (meta.icc ? 0x20 : 0) | (info.alpha ? 0x10 : 0) | (meta.exif ? 0x08 : 0) | (xmp ? 0x04 : 0);
+  [info.width - 1, info.height - 1].forEach((v, i) => { header[4 + i * 3] = v & 0xff; header[5 + i * 3] = (v >> 8) & 0xff; header[6 + i * 3] = (v >> 16) & 0xff; });
+  const image = chunks.filter(c => !["VP8X", "ICCP", "EXIF", "XMP "].includes(c.id)).map(c => riffChunk(c.id, c.data));
+  const body = concatBytes([
+    asciiBytes("WEBP"), riffChunk("VP8X", header),
+    ...(meta.icc ? [riffChunk("ICCP", meta.icc)] : []), ...image,
+    ...(meta.exif ? [riffChunk("EXIF", normalizeExif(meta.exif, meta.dpi))] : []), ...(xmp ? [riffChunk("XMP ", new TextEncoder().encode(xmp))] : []),
+  ]);
+  const riff = new Uint8Array(8);
+  riff.set(asciiBytes("RIFF"));
+  new DataView(riff.buffer).setUint32(4, body.length, true);
+  return concatBytes([riff, body]);
+}
+
+const encodedFormat = (bytes: Uint8Array): ExportFormat | null =>
+  bytes[0] === 0xff && bytes[1] === 0xd8 ? "jpeg" : startsWith(bytes, "\x89PNG") ? "png" : startsWith(bytes, "WEBP", 8) ? "webp" : null;
+
+// Writes EXIF/ICC and an optional XMP packet into encoded JPEG, PNG or WebP bytes; other formats come back unchanged.
+async function embedMetadata(bytes: Uint8Array, meta: ImageMetadata, xmp?: string): Promise<Uint8Array> {
+  const format = encodedFormat(bytes);
+  if (format === "jpeg") return embedJpeg(bytes, meta, xmp);
+  if (format === "png") return embedPng(bytes, meta, xmp);
+  if (format === "webp") return embedWebp(bytes, meta, xmp);
+  return bytes;
+}
+
+// Encodes the result in the requested format and writes back the original's EXIF/ICC/XMP plus the provenance record.
+// Metadata is best-effort: if the encoder produced another format (e.g. no WebP support) the plain bytes are returned.
+async function encodeWithMetadata(src: string, format: ExportFormat, quality: number, original: ImageFile, provenance: Provenance, dpi?: number): Promise<Uint8Array> {
+  const bytes = dataUrlToBytes(await convertImage(src, `image/${format}`, quality));
+  try {
+    const meta = { ...await readImageMetadata(original.data), dpi };
+    if (encodedFormat(bytes) === format) return await embedMetadata(bytes, meta, buildXmp(provenance, meta.xmp));
+  } catch (e) {
+    console.warn("Could not embed metadata", e);
+  }
+  return bytes;
+}
+
+const BUILT_IN_EXPORT_PROFILES: Readonly<ExportProfile[]> = [
+  { id: "builtin_linkedin", name: "LinkedIn 400x400", format: "jpeg", quality: 92, width: 400, height: 400, fit: "cover", dpi: 72, sharpen: 0.4, isBuiltIn: true },
+  { id: "builtin_print_8x10", name: "Print 8x10 @ 300 DPI", format: "jpeg", quality: 95, width: 2400, height: 3000, fit: "cover", dpi: 300, sharpen: 0.6, isBuiltIn: true },
+  { id: "builtin_web_500kb", name: "Web < 500KB", format: "jpeg", quality: 90, width: 2048, height: 2048, fit: "contain", dpi: 72, sharpen: 0.25, maxKB: 500, isBuiltIn: true },
+];
+
+const describeExportProfile = (p: ExportProfile) => [
+  p.format.toUpperCase() + (p.format !== "png" ? ` q${p.quality}` : ""),
+  p.width || p.height ? `${p.width ?? "auto"}×${p.height ?? "auto"} ${p.fit}` : "original size",
+  p.dpi && `${p.dpi} DPI`, p.sharpen > 0 && `sharpen ${p.sharpen}`, p.maxKB && `≤ ${p.maxKB} KB`,
+].filter(Boolean).join(" · ");
+
+// Downscales in halving steps so each pass stays within the browser's high-quality filter range.
+function resizeForProfile(img: HTMLImageElement, profile: ExportProfile): HTMLCanvasElement {
+  const { width: w, height: h } = profile;
+  const scaleX = w ? w / img.width : undefined, scaleY = h ? h / img.height : undefined;
+  const scale = scaleX && scaleY ? (profile.fit === "cover" ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY)) : scaleX ?? scaleY ?? 1;
+  const targetW = Math.max(1, Math.round(img.width * scale)), targetH = Math.max(1, Math.round(img.height * scale));
+
+  let source: CanvasImageSource = img, sw = img.width, sh = img.height;
+  while (sw / 2 >= targetW && sh / 2 >= targetH) {
+    const step = document.createElement("canvas");
+    step.width = Math.round(sw / 2); step.height = Math.round(sh / 2);
+    const ctx = step.getContext("2d")!;
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(source, 0, 0, step.width, step.height);
+    source = step; sw = step.width; sh = step.height;
+  }
+  // cover crops the centre to exactly width x height.
+  const outW = profile.fit === "cover" && w && h ? w : targetW, outH = profile.fit === "cover" && w && h ? h : targetH;
+  const canvas = document.createElement("canvas");
+  canvas.width = outW; canvas.height = outH;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, 0, 0, sw, sh, (outW - targetW) / 2, (outH - targetH) / 2, targetW, targetH);
+  return canvas;
+}
 
-const enhanceImage = async (image: ImageFile, tools: ToolStates, model: ModelName) => {
-  if (!ai) throw new Error("Missing API key. Set AI_STUDIO_API_KEY, VITE_API_KEY, or process.env.API_KEY.");
-  const prompt = buildPrompt(tools);
-  const base64Data = image.data.split(",")[1];
-  const imagePart = { inlineData: { data: base64Data, mimeType: image.type } };
-  const textPart = { text: prompt };
+// Unsharp mask with a 3x3 box blur: out = src + amount * (src - blur).
+function sharpenCanvas(canvas: HTMLCanvasElement, amount: number) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx || amount <= 0) return;
+  const { width: w, height: h } = canvas;
+  const pixels = ctx.getImageData(0, 0, w, h);
+  const src = pixels.data, tmp = new Float32Array(src.length);
+  for (let y = 0; y < h; y++) for (let x = 0; x < w; x++) for (let c = 0; c < 3; c++) {
+    const i = (y * w + x) * 4 + c;
+    tmp[i] = (src[i - (x > 0 ? 4 : 0)] + src[i] + src[i + (x < w - 1 ? 4 : 0)]) / 3;
+  }
+  const row = w * 4;
+  for (let y = 0; y < h; y++) for (let x = 0; x < w; x++) for (let c = 0; c < 3; c++) {
+    const i = (y * w + x) * 4 + c;
+    const blur = (tmp[i - (y > 0 ? row : 0)] + tmp[i] + tmp[i + (y < h - 1 ? row : 0)]) / 3;
+    src[i] = src[i] + amount * (src[i] - blur);
+  }
+  ctx.putImageData(pixels, 0, 0);
+}
 
-  const response = await ai.models.generateContent({
-    model, contents: { parts: [imagePart, textPart] },
-    config: { responseModalities: [Modality.IMAGE, Modality.TEXT] }
+// Profiles without an id, name or known format are dropped. Other bad values fall back to the editor's defaults, or to no limit for the optional sizes.
+function parseExportProfiles(raw: unknown): ExportProfile[] {
+  if (!Array.isArray(raw)) return [];
+  const positive = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+  const inRange = (value: unknown, min: number, max: number) => typeof value === "number" && value >= min && value <= max ? value : undefined;
+  return raw.flatMap((p): ExportProfile[] => {
+    const format = isRecord(p) ? (["png", "jpeg", "webp"] as const).find(f => f === p.format) : undefined;
+    if (!isRecord(p) || typeof p.id !== "string" || typeof p.name !== "string" || !format) return [];
+    const width = positive(p.width), height = positive(p.height);
+    return [{
+      id: p.id, name: p.name, format, quality: Math.round(inRange(p.quality, 1, 100) ?? 92), fit: p.fit === "cover" ? "cover" : "contain",
+      sharpen: inRange(p.sharpen, 0, 2) ?? 0, width: width && Math.round(width), height: height && Math.round(height), dpi: positive(p.dpi), maxKB: positive(p.maxKB), isBuiltIn: false,
+    }];
   });
+}
+
+// Returns the encoded file and the quality used; `fits` is false when even quality 1 exceeds maxKB.
+async function exportWithProfile(src: string, profile: ExportProfile, original: ImageFile, provenance: Provenance): Promise<{ bytes: Uint8Array; quality: number; fits: boolean }> {
+  const canvas = resizeForProfile(await loadImage(src), profile);
+  sharpenCanvas(canvas, profile.sharpen);
+  const processed = canvas.toDataURL("image/png");
+  const encode = (quality: number) => encodeWithMetadata(processed, profile.format, quality, original, provenance, profile.dpi);
+  const limit = profile.maxKB ? profile.maxKB * 1024 : Infinity;
+  const bytes = await encode(profile.quality);
+  if (bytes.length <= limit || profile.format === "png") return { bytes, quality: profile.quality, fits: bytes.length <= limit };
+
+  let lo = 1, hi = profile.quality - 1, best: { bytes: Uint8Array; quality: number } | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const candidate = await encode(mid);
+    if (candidate.length <= limit) { best = { bytes: candidate, quality: mid }; lo = mid + 1; } else hi = mid - 1;
+  }
+  return best ? { ...best, fits: true } : { bytes: await encode(1), quality: 1, fits: false };
+}
+
+/* ---------- ingest ---------- */
+// Types sent to the model as-is; anything else the browser can decode is converted to PNG (with transparency) or JPEG.
+const INGEST_PASSTHROUGH_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+function hasTransparency(canvas: HTMLCanvasElement): boolean {
+  const data = canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height).data;
+  for (let i = 3; i < data.length; i += 4) if (data[i] < 255) return true;
+  return false;
+}
+
+// Bakes EXIF orientation into the pixels, downscales to `maxEdge`, converts unsupported types and re-embeds the original EXIF/ICC/XMP.
+// Files that need none of that are passed through byte for byte.
+async function ingestFile(file: File, maxEdge: number): Promise<{ image: ImageFile; changes: string[] }> {
+  const data = await blobToDataUrl(file);
+  const meta = await readImageMetadata(data).catch((): ImageMetadata => ({}));
+  const orientation = meta.orientation ?? 1;
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    throw new Error(`${file.name}: this browser cannot decode ${file.type || "this file type"}.`);
+  }
+  const source: SourceInfo = { type: file.type, bytes: file.size, width: bitmap.width, height: bitmap.height, orientation };
+  const convert = !INGEST_PASSTHROUGH_TYPES.includes(file.type);
+  let scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  if (scale === 1 && !convert && orientation <= 1 && file.size <= MAX_IMAGE_UPLOAD_SIZE_BYTES) {
+    bitmap.close();
+    return { image: { name: file.name, type: file.type, data, source }, changes: [] };
+  }
 
-  const cand = response.candidates?.[0];
-  for (const part of cand?.content?.parts ?? []) {
-    if ((part as any).inlineData) {
-      const p: any = part;
-      return { image: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}`, prompt };
+  try {
+    let type = file.type === "image/png" || file.type === "image/jpeg" ? file.type : "";
+    for (;;) {
+      const canvas = drawToCanvas(bitmap, 0, 0, bitmap.width, bitmap.height, Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+      if (!type) type = hasTransparency(canvas) ? "image/png" : "image/jpeg";
+      const encoded = dataUrlToBytes(canvas.toDataURL(type, INGEST_JPEG_QUALITY));
+      if (encoded.length <= MAX_IMAGE_UPLOAD_SIZE_BYTES || Math.max(canvas.width, canvas.height) <= INGEST_MIN_EDGE) {
+        const bytes = await embedMetadata(encoded, meta, meta.xmp).catch(e => { console.warn("Could not carry over metadata", e); return encoded; });
+        const changes = [
+          orientation > 1 && "rotated upright",
+          scale < 1 && `downscaled to ${canvas.width}×${canvas.height}`,
+          type !== file.type && `converted to ${type.slice(6).toUpperCase()}`,
+        ].filter((c): c is string => !!c);
+        return { image: { name: file.name, type, data: await blobToDataUrl(new Blob([bytes], { type })), source }, changes };
+      }
+      // Still too large to send: photos drop to JPEG first, then the size steps down.
+      if (type === "image/png" && !hasTransparency(canvas)) type = "image/jpeg";
+      else scale *= 0.75;
     }
+  } finally {
+    bitmap.close();
   }
-  throw new Error(response.text || "The AI did not return an image. It may have refused the request.");
-};
+}
+
+// "3072×2048 working copy of 6000×4000 HEIC (24.1 MB), rotated upright"; null when the upload was used unchanged.
+function describeSource(source: SourceInfo, size: { width: number; height: number }, type: string): string | null {
+  const resized = source.width !== size.width || source.height !== size.height;
+  if (!resized && source.orientation <= 1 && source.type === type) return null;
+  const format = source.type.replace(/^image\//, "").toUpperCase() || "image";
+  return `${size.width}×${size.height} working copy of ${source.width}×${source.height} ${format} (${formatBytes(source.bytes)})${source.orientation > 1 ? ", rotated upright" : ""}`;
+}
 
 /* ---------- UI primitives ---------- */
 const Button = React.forwardRef<HTMLButtonElement, React.ButtonHTMLAttributes<HTMLButtonElement> & { variant?: 'primary' | 'secondary' | 'ghost' | 'destructive' }>(({ className, variant = 'secondary', ...props }, ref) => {
@@ -350,11 +2884,11 @@ const Textarea = React.forwardRef<HTMLTextAreaElement, React.TextareaHTMLAttribu
 const Input = React.forwardRef<HTMLInputElement, React.InputHTMLAttributes<HTMLInputElement>>(({ className, ...props }, ref) =>
   <input ref={ref} className={cn("flex h-10 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm", className)} {...props} />
 );
-const Modal = ({ open, onClose, title, children }: { open: boolean, onClose: () => void, title: string, children: ReactNode }) => {
+const Modal = ({ open, onClose, title, children, className }: { open: boolean, onClose: () => void, title: string, children: ReactNode, className?: string }) => {
     if (!open) return null;
     return (
         <div className="fixed inset-0 bg-black/50 z-[9999] flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
-            <div className="bg-card rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}>
+            <div className={cn("bg-card rounded-lg shadow-xl w-full max-w-md", className)} onClick={e => e.stopPropagation()}>
                 <div className="p-4 border-b border-border flex justify-between items-center">
                     <h3 className="text-lg font-semibold text-foreground">{title}</h3>
                     <Button variant="ghost" className="h-8 px-2" onClick={onClose} aria-label="Close modal"><Icon name="close" /></Button>
@@ -368,7 +2902,8 @@ const Modal = ({ open, onClose, title, children }: { open: boolean, onClose: ()
 const iconMap = {
     upload: Upload, enhance: Wand2, undo: Undo2, redo: Redo2, copy: ClipboardCopy, download: Download, reset: RotateCcw,
     chevronDown: ChevronDown, edit: PenSquare, delete: Trash2, view: Eye, close: X, chevronsLeftRight: ChevronsLeftRight,
-    library: GalleryVerticalEnd,
+    library: GalleryVerticalEnd, pause: Pause, play: Play, retry: RefreshCw, zip: FileArchive, brush: Brush, eraser: Eraser, crop: Crop,
+    diff: ScanEye, warning: AlertTriangle, loupe: ZoomIn, save: Save, open: FolderOpen, manifest: FileSpreadsheet, usage: Receipt, models: Cpu,
 };
 type IconName = keyof typeof iconMap;
 const Icon = ({ name, ...props }: { name: IconName } & React.SVGProps<SVGSVGElement> & { size?: number | string }) => {
@@ -407,11 +2942,86 @@ const ToolControl = ({ label, children, value, controlId }: { label: ReactNode;
   </div>
 );
 
+const PromptTemplateEditor = ({ open, onClose }: { open: boolean, onClose: () => void }) => {
+    const { state, dispatch } = useAppContext();
+    const { tools, mask, promptTemplates } = state;
+    const [section, setSection] = useState<PromptTemplateKey>("superResolution");
+    const vars = useMemo(() => promptVariables(tools, mask ?? undefined), [tools, mask]);
+    const preview = useMemo(() => buildPrompt(tools, mask ?? undefined, promptTemplates), [tools, mask, promptTemplates]);
+    const value = promptTemplates[section] ?? DEFAULT_PROMPT_TEMPLATES[section];
+    const unknown = unknownTemplateVariables(value, vars);
+    const group = section === "colorToneLocal" ? "colorTone" : section === "removal" || section === "removalMasked" ? "distractions" : section;
+    const sectionVars = Object.keys(vars).filter(key => key.startsWith(`${group}.`));
+
+    const update = (text: string) => {
+        const { [section]: _, ...rest } = promptTemplates;
+        dispatch({ type: "SET_PROMPT_TEMPLATES", payload: text === DEFAULT_PROMPT_TEMPLATES[section] ? rest : { ...rest, [section]: text } });
+    };
+    const restore = () => { const { [section]: _, ...rest } = promptTemplates; dispatch({ type: "SET_PROMPT_TEMPLATES", payload: rest }); };
+
+    return (
+        <Modal open={open} onClose={onClose} title="Prompt Templates" className="max-w-4xl">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-3">
+                    <Select value={section} onChange={e => setSection(e.target.value as PromptTemplateKey)} aria-label="Prompt section">
+                        {(Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateKey[]).map(key => <option key={key} value={key}>{PROMPT_TEMPLATE_LABELS[key]}{promptTemplates[key] !== undefined ? " •" : ""}</option>)}
+                    </Select>
+                    <Textarea value={value} onChange={e => update(e.target.value)} rows={8} className="font-mono text-xs" aria-label={`${PROMPT_TEMPLATE_LABELS[section]} template`} />
+                    {unknown.length > 0 && <p className="text-xs text-destructive">Unknown variable(s): {unknown.map(v => `{{${v}}}`).join(", ")}</p>}
+                    {sectionVars.length > 0 && <p className="text-xs text-muted-foreground break-words">Variables: {sectionVars.map(v => `{{${v}}}`).join(" ")}. Any group's variables can be used in any section.</p>}
+                    <div className="flex gap-2">
+                        <Button onClick={restore} disabled={promptTemplates[section] === undefined} className="flex-grow">Restore Default</Button>
+                        <Button variant="ghost" onClick={() => dispatch({ type: "SET_PROMPT_TEMPLATES", payload: {} })} disabled={Object.keys(promptTemplates).length === 0}>Restore All</Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">Saving a preset stores customised templates with it.</p>
+                </div>
+                <div>
+                    <Label>Preview (current settings)</Label>
+                    <pre className="mt-1 p-3 bg-secondary rounded-md text-xs whitespace-pre-wrap max-h-[60vh] overflow-y-auto">{preview}</pre>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+const HistoryPanel = () => {
+    const { state, dispatch } = useAppContext();
+    const { history, historyIndex } = state;
+    const listRef = useRef<HTMLOListElement>(null);
+
+    // Keep the current entry visible without scrolling the page (scrollIntoView would, while a slider is being dragged).
+    useEffect(() => {
+        const list = listRef.current, item = list?.children[historyIndex] as HTMLElement | undefined;
+        if (!list || !item) return;
+        if (item.offsetTop < list.scrollTop || item.offsetTop + item.offsetHeight > list.scrollTop + list.clientHeight) list.scrollTop = item.offsetTop - list.clientHeight / 2;
+    }, [historyIndex, history.length]);
+
+    return (
+        <div className="mb-6">
+            <h2 className="text-2xl font-bold mb-4 text-foreground">History</h2>
+            <Card className="p-2 bg-white">
+                <ol ref={listRef} className="relative max-h-48 overflow-y-auto space-y-0.5" aria-label="Edit history">
+                    {history.map((entry, i) => (
+                        <li key={`${i}-${entry.at}`}>
+                            <button type="button" onClick={() => dispatch({ type: "JUMP_HISTORY", payload: { index: i } })} aria-current={i === historyIndex ? "step" : undefined}
+                                className={cn("w-full text-left text-sm px-2 py-1 rounded-md hover:bg-secondary truncate", i === historyIndex && "bg-secondary font-medium", i > historyIndex && "text-muted-foreground")}>
+                                <span className="font-mono text-xs mr-2">{i}</span>{entry.label}
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            </Card>
+        </div>
+    );
+};
+
 const PresetsManager = () => {
     const { state, dispatch } = useAppContext();
-    const { tools, userPresets, showBuiltInPresets } = state;
+    const { tools, promptTemplates, userPresets, showBuiltInPresets } = state;
+    const models = useMemo(() => allModels(state.customModels).filter(m => m.imageOutput), [state.customModels]);
     const [isManageModalOpen, setManageModalOpen] = useState(false);
     const [presetToRename, setPresetToRename] = useState<Preset | null>(null);
+    const [isTemplatesOpen, setTemplatesOpen] = useState(false);
     const [newName, setNewName] = useState("");
     const importRef = useRef<HTMLInputElement>(null);
 
@@ -424,7 +3034,7 @@ const PresetsManager = () => {
     const handleSave = () => {
         const name = prompt("Enter a name for your preset:");
         if (name) {
-            const newPreset: Preset = { id: `user_${Date.now()}`, name, tools };
+            const newPreset: Preset = { id: `user_${Date.now()}`, name, tools, ...(Object.keys(promptTemplates).length > 0 && { promptTemplates }) };
             dispatch({ type: "SAVE_PRESET", payload: { preset: newPreset } });
             dispatch({ type: "SHOW_TOAST", payload: { message: `Preset "${name}" saved!`, type: "success" } });
         }
@@ -435,14 +3045,14 @@ const PresetsManager = () => {
         if (!id) return;
         const preset = availablePresets.find(p => p.id === id);
         if (preset) {
-            dispatch({ type: "LOAD_PRESET", payload: { tools: preset.tools } });
-            dispatch({ type: "SHOW_TOAST", payload: { message: `Preset "${preset.name}" loaded!`, type: "success" } });
+            dispatch({ type: "LOAD_PRESET", payload: { tools: preset.tools, promptTemplates: preset.promptTemplates, name: preset.name, model: preset.model } });
+            dispatch({ type: "SHOW_TOAST", payload: { message: preset.model ? `Preset "${preset.name}" loaded with ${modelLabel(preset.model, models)}!` : `Preset "${preset.name}" loaded!`, type: "success" } });
         }
         e.target.value = "";
     };
 
     const handleExport = () => {
-        downloadFile(JSON.stringify(userPresets, null, 2), "ai-portrait-presets.json", "application/json");
+        downloadFile(JSON.stringify(serializePresets(userPresets), null, 2), "ai-portrait-presets.json", "application/json");
     };
 
     const handleImport = (e: ChangeEvent<HTMLInputElement>) => {
@@ -451,16 +3061,19 @@ const PresetsManager = () => {
         const reader = new FileReader();
         reader.onload = (event) => {
             try {
-                const presets = JSON.parse(event.target?.result as string);
-                if (Array.isArray(presets)) {
-                    dispatch({ type: "IMPORT_PRESETS", payload: { presets } });
-                    dispatch({ type: "SHOW_TOAST", payload: { message: "Presets imported successfully!", type: "success" } });
-                } else throw new Error("Invalid format");
+                const { presets, errors } = parsePresetFile(JSON.parse(event.target?.result as string), file.name.replace(/\.[^.]+$/, ""));
+                if (presets.length > 0) dispatch({ type: "IMPORT_PRESETS", payload: { presets } });
+                if (errors.length > 0) {
+                    console.warn("Preset import errors:", errors);
+                    const more = errors.length > 3 ? ` (+${errors.length - 3} more)` : "";
+                    dispatch({ type: "SHOW_TOAST", payload: { message: `Imported ${presets.length} preset(s). Problems: ${errors.slice(0, 3).join("; ")}${more}`, type: "error" } });
+                } else dispatch({ type: "SHOW_TOAST", payload: { message: `Imported ${presets.length} preset(s) successfully!`, type: "success" } });
             } catch (error) {
                 dispatch({ type: "SHOW_TOAST", payload: { message: "Failed to import presets. Invalid file.", type: "error" } });
             }
         };
         reader.readAsText(file);
+        e.target.value = "";
     };
 
     return (
@@ -471,19 +3084,23 @@ const PresetsManager = () => {
                     <Select onChange={handleLoad} value="">
                         <option value="">Apply a Preset...</option>
                         {showBuiltInPresets && <optgroup label="Built-in Presets">{BUILT_IN_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}</optgroup>}
-                        {userPresets.length > 0 && <optgroup label="My Presets">{userPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}</optgroup>}
+                        {userPresets.length > 0 && <optgroup label="My Presets">{userPresets.map(p => <option key={p.id} value={p.id}>{p.name}{p.model && ` · ${modelLabel(p.model, models)}`}</option>)}</optgroup>}
                     </Select>
                     <div className="flex items-center gap-2">
                         <Button onClick={handleSave} className="flex-grow">Save Current</Button>
                         <Button onClick={() => setManageModalOpen(true)}>Manage</Button>
                     </div>
                 </div>
+                <Button variant="ghost" onClick={() => setTemplatesOpen(true)} className="w-full mt-3 text-sm">
+                    <Icon name="edit" size={16} />Prompt Templates{Object.keys(promptTemplates).length > 0 && ` (${Object.keys(promptTemplates).length} customised)`}
+                </Button>
                 <div className="flex items-center justify-start gap-2 mt-3">
                     <Switch id="toggle-builtins" checked={showBuiltInPresets} onClick={() => dispatch({ type: "TOGGLE_BUILTIN_PRESETS" })} />
                     <Label htmlFor="toggle-builtins" className="text-sm select-none cursor-pointer">Show Built-in Presets</Label>
                 </div>
             </Card>
 
+            <PromptTemplateEditor open={isTemplatesOpen} onClose={() => setTemplatesOpen(false)} />
             <Modal open={isManageModalOpen} onClose={() => setManageModalOpen(false)} title="Manage Presets">
                 <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-2">
                     {userPresets.map(p => (
@@ -499,6 +3116,11 @@ const PresetsManager = () => {
                                 <span className="text-sm">{p.name}</span>
                             )}
                             <div className="flex gap-1">
+                                <Select aria-label={`Model for ${p.name}`} value={p.model ?? ""} onChange={e => dispatch({ type: 'SET_PRESET_MODEL', payload: { id: p.id, model: e.target.value || undefined } })} className="h-8 text-xs w-40" title="Pin a model to this preset">
+                                  <option value="">Any model</option>
+                                  {models.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                  {p.model && !models.some(m => m.id === p.model) && <option value={p.model}>{p.model} (unknown)</option>}
+                                </Select>
                                 <Button variant="ghost" className="h-8 px-2" aria-label={`Rename ${p.name}`} onClick={() => { setPresetToRename(p); setNewName(p.name); }}>
                                   <Icon name="edit" />
                                 </Button>
@@ -520,37 +3142,56 @@ const PresetsManager = () => {
     );
 };
 
+// Aspect presets plus a custom W:H pair; changing the ratio resets the frame so it re-centres at full size.
+const CropAspectSelect = ({ id, crop, onChange, className }: { id?: string; crop: CropSettings; onChange: (settings: Partial<CropSettings>) => void; className?: string }) => (
+  <div className={cn("flex items-center gap-1 w-full", className)}>
+    <Select id={id} value={crop.aspectRatio} onChange={(e) => onChange({ aspectRatio: e.target.value as CropSettings["aspectRatio"], x: 0, y: 0, w: 1, h: 1 })} className="flex-grow">
+      <option value="free">Free</option><option value="original">Original</option><option value="1:1">1:1 (Square)</option><option value="4:5">4:5 (Portrait)</option><option value="16:9">16:9 (Widescreen)</option><option value="custom">Custom</option>
+    </Select>
+    {crop.aspectRatio === "custom" && <>
+      <Input type="number" min="1" max="100" aria-label="Ratio width" value={crop.ratioW} onChange={(e) => onChange({ ratioW: Math.min(100, Math.max(1, +e.target.value || 1)) })} className="w-14 px-1" />
+      <span className="text-muted-foreground">:</span>
+      <Input type="number" min="1" max="100" aria-label="Ratio height" value={crop.ratioH} onChange={(e) => onChange({ ratioH: Math.min(100, Math.max(1, +e.target.value || 1)) })} className="w-14 px-1" />
+    </>}
+  </div>
+);
+
 const ToolsPanel = () => {
   const { state, dispatch } = useAppContext();
   const { tools } = state;
+  const gesture = useEditGesture();
   const updateTool = (tool: keyof ToolStates, settings: Partial<ToolStates[keyof ToolStates]>) =>
     dispatch({ type: "UPDATE_TOOL", payload: { tool, settings } });
   
   const hairColorPresets = ["#000000", "#3B2A24", "#5C3D2E", "#A47C5A", "#B89364", "#DDC084", "#8B4513", "#C0C0C0"];
 
   const ids = {
-      upscale: useId(), wb: useId(), temp: useId(), tint: useId(), exposure: useId(), contrast: useId(), highlights: useId(), 
+      upscale: useId(), toneMode: useId(), wb: useId(), temp: useId(), tint: useId(), exposure: useId(), contrast: useId(), highlights: useId(), 
       shadows: useId(), vibrance: useId(), saturation: useId(), skinTone: useId(), intensity: useId(), eyeEnhance: useId(), 
-      teethWhiten: useId(), hairMode: useId(), hairColor: useId(), hairCustom: useId(), bgMode: useId(), bgColor: useId(), bgCustom: useId(), aspect: useId(), distractions: useId(),
+      teethWhiten: useId(), hairMode: useId(), hairColor: useId(), hairCustom: useId(), bgMode: useId(), bgColor: useId(), bgCustom: useId(), tiled: useId(), aspect: useId(), cropMode: useId(), cropStage: useId(), angle: useId(), distractions: useId(),
       preserveStrength: useId(), luma: useId(), chroma: useId(), ca: useId(), vignette: useId(), distortion: useId()
   };
 
   return (
     <div className="lg:col-span-1 h-fit lg:sticky top-6">
       <PresetsManager />
+      <HistoryPanel />
       <h2 className="text-2xl font-bold mb-4 text-foreground">Enhancement Tools</h2>
       <AccordionItem title="Super Resolution" enabled={tools.superResolution.enabled} onToggle={(e) => updateTool("superResolution", { enabled: e })}>
         <ToolControl label="Upscale" controlId={ids.upscale}><Select id={ids.upscale} value={tools.superResolution.upscale} onChange={(e) => updateTool("superResolution", { upscale: e.target.value as "2x" | "4x" | "8x" })}><option value="2x">2x</option><option value="4x">4x</option><option value="8x">8x (Max)</option></Select></ToolControl>
+        <ToolControl label="Exact size (tiled)" controlId={ids.tiled}><div className="w-full flex justify-end"><Switch id={ids.tiled} checked={tools.superResolution.tiled} onClick={() => updateTool("superResolution", { tiled: !tools.superResolution.tiled })} /></div></ToolControl>
+        {tools.superResolution.tiled && <p className="text-xs text-muted-foreground">Enhances once, then upscales in overlapping tiles to exactly {tools.superResolution.upscale} the input size. Uses one extra request per tile.</p>}
       </AccordionItem>
       <AccordionItem title="Color & Tone" enabled={tools.colorTone.enabled} onToggle={(e) => updateTool("colorTone", { enabled: e })}>
+          <ToolControl label="Apply" controlId={ids.toneMode}><Select id={ids.toneMode} value={tools.colorTone.mode} onChange={(e) => updateTool("colorTone", { mode: e.target.value as ToolStates["colorTone"]["mode"] })}><option value="prompt">In AI prompt</option><option value="local">Locally (exact)</option><option value="both">Prompt + locally</option></Select></ToolControl>
           <ToolControl label="White Balance" controlId={ids.wb}><Select id={ids.wb} value={tools.colorTone.whiteBalance} onChange={(e) => updateTool("colorTone", { whiteBalance: e.target.value as "auto" | "custom" })}><option value="auto">Auto</option><option value="custom">Custom</option></Select></ToolControl>
-          {tools.colorTone.whiteBalance === 'custom' && (<><ToolControl label="Temperature" value={tools.colorTone.temp} controlId={ids.temp}><Slider id={ids.temp} min="-10" max="10" value={tools.colorTone.temp} onChange={(e) => updateTool("colorTone", { temp: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { temp: 0 })} /></ToolControl><ToolControl label="Tint" value={tools.colorTone.tint} controlId={ids.tint}><Slider id={ids.tint} min="-10" max="10" value={tools.colorTone.tint} onChange={(e) => updateTool("colorTone", { tint: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { tint: 0 })} /></ToolControl></>)}
-          <ToolControl label="Exposure" value={tools.colorTone.exposure} controlId={ids.exposure}><Slider id={ids.exposure} min="-10" max="10" value={tools.colorTone.exposure} onChange={(e) => updateTool("colorTone", { exposure: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { exposure: 0 })} /></ToolControl>
-          <ToolControl label="Contrast" value={tools.colorTone.contrast} controlId={ids.contrast}><Slider id={ids.contrast} min="-10" max="10" value={tools.colorTone.contrast} onChange={(e) => updateTool("colorTone", { contrast: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { contrast: 0 })} /></ToolControl>
-          <ToolControl label="Highlights" value={tools.colorTone.highlights} controlId={ids.highlights}><Slider id={ids.highlights} min="-10" max="10" value={tools.colorTone.highlights} onChange={(e) => updateTool("colorTone", { highlights: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { highlights: 0 })} /></ToolControl>
-          <ToolControl label="Shadows" value={tools.colorTone.shadows} controlId={ids.shadows}><Slider id={ids.shadows} min="-10" max="10" value={tools.colorTone.shadows} onChange={(e) => updateTool("colorTone", { shadows: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { shadows: 0 })} /></ToolControl>
-          <ToolControl label="Vibrance" value={tools.colorTone.vibrance} controlId={ids.vibrance}><Slider id={ids.vibrance} min="-10" max="10" value={tools.colorTone.vibrance} onChange={(e) => updateTool("colorTone", { vibrance: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { vibrance: 0 })} /></ToolControl>
-          <ToolControl label="Saturation" value={tools.colorTone.saturation} controlId={ids.saturation}><Slider id={ids.saturation} min="-10" max="10" value={tools.colorTone.saturation} onChange={(e) => updateTool("colorTone", { saturation: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { saturation: 0 })} /></ToolControl>
+          {tools.colorTone.whiteBalance === 'custom' && (<><ToolControl label="Temperature" value={tools.colorTone.temp} controlId={ids.temp}><Slider {...gesture.drag} id={ids.temp} min="-10" max="10" value={tools.colorTone.temp} onChange={(e) => updateTool("colorTone", { temp: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { temp: 0 })} /></ToolControl><ToolControl label="Tint" value={tools.colorTone.tint} controlId={ids.tint}><Slider {...gesture.drag} id={ids.tint} min="-10" max="10" value={tools.colorTone.tint} onChange={(e) => updateTool("colorTone", { tint: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { tint: 0 })} /></ToolControl></>)}
+          <ToolControl label="Exposure" value={tools.colorTone.exposure} controlId={ids.exposure}><Slider {...gesture.drag} id={ids.exposure} min="-10" max="10" value={tools.colorTone.exposure} onChange={(e) => updateTool("colorTone", { exposure: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { exposure: 0 })} /></ToolControl>
+          <ToolControl label="Contrast" value={tools.colorTone.contrast} controlId={ids.contrast}><Slider {...gesture.drag} id={ids.contrast} min="-10" max="10" value={tools.colorTone.contrast} onChange={(e) => updateTool("colorTone", { contrast: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { contrast: 0 })} /></ToolControl>
+          <ToolControl label="Highlights" value={tools.colorTone.highlights} controlId={ids.highlights}><Slider {...gesture.drag} id={ids.highlights} min="-10" max="10" value={tools.colorTone.highlights} onChange={(e) => updateTool("colorTone", { highlights: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { highlights: 0 })} /></ToolControl>
+          <ToolControl label="Shadows" value={tools.colorTone.shadows} controlId={ids.shadows}><Slider {...gesture.drag} id={ids.shadows} min="-10" max="10" value={tools.colorTone.shadows} onChange={(e) => updateTool("colorTone", { shadows: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { shadows: 0 })} /></ToolControl>
+          <ToolControl label="Vibrance" value={tools.colorTone.vibrance} controlId={ids.vibrance}><Slider {...gesture.drag} id={ids.vibrance} min="-10" max="10" value={tools.colorTone.vibrance} onChange={(e) => updateTool("colorTone", { vibrance: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { vibrance: 0 })} /></ToolControl>
+          <ToolControl label="Saturation" value={tools.colorTone.saturation} controlId={ids.saturation}><Slider {...gesture.drag} id={ids.saturation} min="-10" max="10" value={tools.colorTone.saturation} onChange={(e) => updateTool("colorTone", { saturation: +e.target.value })} onDoubleClick={() => updateTool("colorTone", { saturation: 0 })} /></ToolControl>
           <ToolControl label="Skin Tone" controlId={ids.skinTone}><Select id={ids.skinTone} value={tools.colorTone.skinTone} onChange={(e) => updateTool("colorTone", { skinTone: e.target.value as "neutral" | "slightly warm" })}><option value="neutral">Neutral</option><option value="slightly warm">Slightly Warm</option></Select></ToolControl>
       </AccordionItem>
       <AccordionItem title="Facial Retouch" enabled={tools.facialRetouch.enabled} onToggle={(e) => updateTool("facialRetouch", { enabled: e })}>
@@ -565,13 +3206,22 @@ const ToolsPanel = () => {
               <option value="color">Change Color</option>
               <option value="custom">Custom Style</option>
           </Select>
-          {tools.hairStyling.mode === "color" && (<><div className="flex items-center gap-2 mt-2"><Input id={ids.hairColor} type="color" value={tools.hairStyling.color} onChange={(e) => updateTool("hairStyling", { color: e.target.value })} className="p-1 h-10 w-14" /><Input aria-label="Hex color" type="text" value={tools.hairStyling.color} onChange={(e) => updateTool("hairStyling", { color: e.target.value })} className="flex-grow" /></div><div className="flex flex-wrap gap-2 mt-3 justify-center">{hairColorPresets.map(c => (<button key={c} type="button" aria-label={`Set hair color to ${c}`} onClick={() => updateTool("hairStyling", { color: c })} className={cn("w-6 h-6 rounded-full border-2 transition-transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2", tools.hairStyling.color.toLowerCase() === c.toLowerCase() ? 'border-primary' : 'border-border')} style={{ backgroundColor: c }} />))}</div></>)}
-          {tools.hairStyling.mode === "custom" && <Textarea id={ids.hairCustom} value={tools.hairStyling.customInstruction} onChange={(e) => updateTool("hairStyling", { customInstruction: e.target.value })} className="mt-2" placeholder="e.g. rainbow streaks, curly and voluminous" />}
+          {tools.hairStyling.mode === "color" && (<><div className="flex items-center gap-2 mt-2"><Input {...gesture.typing} id={ids.hairColor} type="color" value={tools.hairStyling.color} onChange={(e) => updateTool("hairStyling", { color: e.target.value })} className="p-1 h-10 w-14" /><Input {...gesture.typing} aria-label="Hex color" type="text" value={tools.hairStyling.color} onChange={(e) => updateTool("hairStyling", { color: e.target.value })} className="flex-grow" /></div><div className="flex flex-wrap gap-2 mt-3 justify-center">{hairColorPresets.map(c => (<button key={c} type="button" aria-label={`Set hair color to ${c}`} onClick={() => updateTool("hairStyling", { color: c })} className={cn("w-6 h-6 rounded-full border-2 transition-transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2", tools.hairStyling.color.toLowerCase() === c.toLowerCase() ? 'border-primary' : 'border-border')} style={{ backgroundColor: c }} />))}</div></>)}
+          {tools.hairStyling.mode === "custom" && <Textarea {...gesture.typing} id={ids.hairCustom} value={tools.hairStyling.customInstruction} onChange={(e) => updateTool("hairStyling", { customInstruction: e.target.value })} className="mt-2" placeholder="e.g. rainbow streaks, curly and voluminous" />}
+      </AccordionItem>
+      <AccordionItem title="Background" enabled={tools.background.enabled} onToggle={(e) => updateTool("background", { enabled: e })}><Select id={ids.bgMode} value={tools.background.mode} onChange={(e) => updateTool("background", { mode: e.target.value as ToolStates["background"]["mode"] })}><option value="keep">Keep Original</option><option value="solid">Solid Color</option><option value="blur">Blur/Bokeh</option><option value="custom">Custom</option></Select>{tools.background.mode === "solid" && (<div className="flex items-center gap-2 mt-2"><Input {...gesture.typing} id={ids.bgColor} type="color" value={tools.background.solidColor} onChange={(e) => updateTool("background", { solidColor: e.target.value })} className="p-1 h-10 w-14" /><Input {...gesture.typing} aria-label="Hex color" type="text" value={tools.background.solidColor} onChange={(e) => updateTool("background", { solidColor: e.target.value })} className="flex-grow" /></div>)}{tools.background.mode === "custom" && <Textarea {...gesture.typing} id={ids.bgCustom} value={tools.background.customInstruction} onChange={(e) => updateTool("background", { customInstruction: e.target.value })} className="mt-2" placeholder="e.g. a serene beach at sunset" />}</AccordionItem>
+      <AccordionItem title="Crop & Straighten" enabled={tools.crop.enabled} onToggle={(e) => updateTool("crop", { enabled: e })}>
+        <ToolControl label="Aspect Ratio" controlId={ids.aspect}><CropAspectSelect id={ids.aspect} crop={tools.crop} onChange={(settings) => updateTool("crop", settings)} /></ToolControl>
+        <ToolControl label="Apply" controlId={ids.cropMode}><Select id={ids.cropMode} value={tools.crop.mode} onChange={(e) => updateTool("crop", { mode: e.target.value as CropSettings["mode"] })}><option value="pixels">Exactly (on pixels)</option><option value="prompt">Ask the model</option></Select></ToolControl>
+        {tools.crop.mode === "pixels" && <>
+          <ToolControl label="When" controlId={ids.cropStage}><Select id={ids.cropStage} value={tools.crop.stage} onChange={(e) => updateTool("crop", { stage: e.target.value as CropSettings["stage"] })}><option value="before">Before enhancement</option><option value="after">After enhancement</option></Select></ToolControl>
+          <ToolControl label="Straighten" value={`${tools.crop.angle.toFixed(1)}°`} controlId={ids.angle}><Slider {...gesture.drag} id={ids.angle} min="-45" max="45" step="0.1" value={tools.crop.angle} onChange={(e) => updateTool("crop", { angle: +e.target.value })} onDoubleClick={() => updateTool("crop", { angle: 0 })} /></ToolControl>
+          <p className="text-xs text-muted-foreground">Use the Crop button under the image to drag the frame.</p>
+        </>}
       </AccordionItem>
-      <AccordionItem title="Background" enabled={tools.background.enabled} onToggle={(e) => updateTool("background", { enabled: e })}><Select id={ids.bgMode} value={tools.background.mode} onChange={(e) => updateTool("background", { mode: e.target.value as ToolStates["background"]["mode"] })}><option value="keep">Keep Original</option><option value="solid">Solid Color</option><option value="blur">Blur/Bokeh</option><option value="custom">Custom</option></Select>{tools.background.mode === "solid" && (<div className="flex items-center gap-2 mt-2"><Input id={ids.bgColor} type="color" value={tools.background.solidColor} onChange={(e) => updateTool("background", { solidColor: e.target.value })} className="p-1 h-10 w-14" /><Input aria-label="Hex color" type="text" value={tools.background.solidColor} onChange={(e) => updateTool("background", { solidColor: e.target.value })} className="flex-grow" /></div>)}{tools.background.mode === "custom" && <Textarea id={ids.bgCustom} value={tools.background.customInstruction} onChange={(e) => updateTool("background", { customInstruction: e.target.value })} className="mt-2" placeholder="e.g. a serene beach at sunset" />}</AccordionItem>
-      <AccordionItem title="Crop & Straighten" enabled={tools.crop.enabled} onToggle={(e) => updateTool("crop", { enabled: e })}><ToolControl label="Aspect Ratio" controlId={ids.aspect}><Select id={ids.aspect} value={tools.crop.aspectRatio} onChange={(e) => updateTool("crop", { aspectRatio: e.target.value as any })}><option value="original">Original</option><option value="1:1">1:1 (Square)</option><option value="4:5">4:5 (Portrait)</option><option value="16:9">16:9 (Widescreen)</option></Select></ToolControl></AccordionItem>
       <AccordionItem title="Remove Distractions" enabled={tools.distractions.enabled} onToggle={(e) => updateTool("distractions", { enabled: e })}>
         <Textarea 
+          {...gesture.typing}
           id={ids.distractions} 
           value={tools.distractions.list} 
           onChange={(e) => updateTool("distractions", { list: e.target.value })} 
@@ -585,31 +3235,316 @@ const ToolsPanel = () => {
             }
           }}
           placeholder="e.g. blemish on cheek, stray hair, lint on collar" />
-        <p className="text-xs text-muted-foreground mt-1">Separate items with a comma or press Enter.</p>
+        <p className="text-xs text-muted-foreground mt-1">Separate items with a comma or press Enter.{state.mask?.scope === "removal" && " Removal is limited to the painted mask."}</p>
       </AccordionItem>
       <AccordionItem title="Noise & Optics" enabled={tools.noiseAndOptics.enabled} onToggle={(e) => updateTool("noiseAndOptics", { enabled: e })}>
-        <ToolControl label="Luma Noise" value={tools.noiseAndOptics.lumaNoise} controlId={ids.luma}><Slider id={ids.luma} min="0" max="10" value={tools.noiseAndOptics.lumaNoise} onChange={(e) => updateTool("noiseAndOptics", { lumaNoise: +e.target.value })} onDoubleClick={() => updateTool("noiseAndOptics", { lumaNoise: 0 })} /></ToolControl>
-        <ToolControl label="Chroma Noise" value={tools.noiseAndOptics.chromaNoise} controlId={ids.chroma}><Slider id={ids.chroma} min="0" max="10" value={tools.noiseAndOptics.chromaNoise} onChange={(e) => updateTool("noiseAndOptics", { chromaNoise: +e.target.value })} onDoubleClick={() => updateTool("noiseAndOptics", { chromaNoise: 0 })} /></ToolControl>
-        <ToolControl label="Fix CA" value={tools.noiseAndOptics.caFix} controlId={ids.ca}><Slider id={ids.ca} min="0" max="10" value={tools.noiseAndOptics.caFix} onChange={(e) => updateTool("noiseAndOptics", { caFix: +e.target.value })} onDoubleClick={() => updateTool("noiseAndOptics", { caFix: 0 })} /></ToolControl>
-        <ToolControl label="Vignette" value={tools.noiseAndOptics.vignette} controlId={ids.vignette}><Slider id={ids.vignette} min="-10" max="10" value={tools.noiseAndOptics.vignette} onChange={(e) => updateTool("noiseAndOptics", { vignette: +e.target.value })} onDoubleClick={() => updateTool("noiseAndOptics", { vignette: 0 })} /></ToolControl>
-        <ToolControl label="Distortion" value={tools.noiseAndOptics.distortion} controlId={ids.distortion}><Slider id={ids.distortion} min="-10" max="10" value={tools.noiseAndOptics.distortion} onChange={(e) => updateTool("noiseAndOptics", { distortion: +e.target.value })} onDoubleClick={() => updateTool("noiseAndOptics", { distortion: 0 })} /></ToolControl>
+        <ToolControl label="Luma Noise" value={tools.noiseAndOptics.lumaNoise} controlId={ids.luma}><Slider {...gesture.drag} id={ids.luma} min="0" max="10" value={tools.noiseAndOptics.lumaNoise} onChange={(e) => updateTool("noiseAndOptics", { lumaNoise: +e.target.value })} onDoubleClick={() => updateTool("noiseAndOptics", { lumaNoise: 0 })} /></ToolControl>
+        <ToolControl label="Chroma Noise" value={tools.noiseAndOptics.chromaNoise} controlId={ids.chroma}><Slider {...gesture.drag} id={ids.chroma} min="0" max="10" value={tools.noiseAndOptics.chromaNoise} onChange={(e) => updateTool("noiseAndOptics", { chromaNoise: +e.target.value })} onDoubleClick={() => updateTool("noiseAndOptics", { chromaNoise: 0 })} /></ToolControl>
+        <ToolControl label="Fix CA" value={tools.noiseAndOptics.caFix} controlId={ids.ca}><Slider {...gesture.drag} id={ids.ca} min="0" max="10" value={tools.noiseAndOptics.caFix} onChange={(e) => updateTool("noiseAndOptics", { caFix: +e.target.value })} onDoubleClick={() => updateTool("noiseAndOptics", { caFix: 0 })} /></ToolControl>
+        <ToolControl label="Vignette" value={tools.noiseAndOptics.vignette} controlId={ids.vignette}><Slider {...gesture.drag} id={ids.vignette} min="-10" max="10" value={tools.noiseAndOptics.vignette} onChange={(e) => updateTool("noiseAndOptics", { vignette: +e.target.value })} onDoubleClick={() => updateTool("noiseAndOptics", { vignette: 0 })} /></ToolControl>
+        <ToolControl label="Distortion" value={tools.noiseAndOptics.distortion} controlId={ids.distortion}><Slider {...gesture.drag} id={ids.distortion} min="-10" max="10" value={tools.noiseAndOptics.distortion} onChange={(e) => updateTool("noiseAndOptics", { distortion: +e.target.value })} onDoubleClick={() => updateTool("noiseAndOptics", { distortion: 0 })} /></ToolControl>
       </AccordionItem>
     </div>
   );
 };
 
+const ColorTonePreview = ({ src, colorTone, style, className }: { src: string; colorTone: ColorToneSettings; style?: React.CSSProperties; className?: string }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sourceRef = useRef<ImageData | null>(null);
+  const [sourceVersion, setSourceVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(src).then(img => {
+      if (cancelled) return;
+      const scale = Math.min(1, TONE_PREVIEW_MAX_EDGE / Math.max(img.width, img.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      sourceRef.current = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      setSourceVersion(n => n + 1);
+    }).catch(err => console.error("Could not load image for tone preview", err));
+    return () => { cancelled = true; };
+  }, [src]);
+
+  useEffect(() => {
+    const source = sourceRef.current, canvas = canvasRef.current;
+    if (!source || !canvas) return;
+    const frame = requestAnimationFrame(() => {
+      const pixels = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+      applyColorTone(pixels.data, colorTone);
+      canvas.width = pixels.width;
+      canvas.height = pixels.height;
+      canvas.getContext("2d")?.putImageData(pixels, 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [colorTone, sourceVersion]);
+
+  return <canvas ref={canvasRef} style={style} className={className} aria-label="Color & tone preview" />;
+};
+
+type BrushSettings = { tool: "brush" | "eraser"; size: number; feather: number };
+
+// Flattens the painted overlay into a black/white PNG at image resolution, or null when nothing is painted.
+function exportMask(paint: HTMLCanvasElement, feather: number): string | null {
+  const pctx = paint.getContext("2d");
+  if (!pctx) return null;
+  const alpha = pctx.getImageData(0, 0, paint.width, paint.height).data;
+  let painted = false;
+  for (let i = 3; i < alpha.length; i += 4) if (alpha[i] > 0) { painted = true; break; }
+  if (!painted) return null;
+  const white = document.createElement("canvas");
+  white.width = paint.width; white.height = paint.height;
+  const wctx = white.getContext("2d")!;
+  wctx.drawImage(paint, 0, 0);
+  wctx.globalCompositeOperation = "source-in";
+  wctx.fillStyle = "#ffffff";
+  wctx.fillRect(0, 0, white.width, white.height);
+  const out = document.createElement("canvas");
+  out.width = paint.width; out.height = paint.height;
+  const octx = out.getContext("2d")!;
+  octx.fillStyle = "#000000";
+  octx.fillRect(0, 0, out.width, out.height);
+  if (feather > 0) octx.filter = `blur(${feather}px)`;
+  octx.drawImage(white, 0, 0);
+  return out.toDataURL("image/png");
+}
+
+async function paintMaskInto(canvas: HTMLCanvasElement, src: string) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  ctx.drawImage(await loadImage(src), 0, 0, canvas.width, canvas.height);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const d = pixels.data;
+  for (let i = 0; i < d.length; i += 4) {
+    d[i + 3] = d[i];
+    d[i] = MASK_PREVIEW_RGB[0]; d[i + 1] = MASK_PREVIEW_RGB[1]; d[i + 2] = MASK_PREVIEW_RGB[2];
+  }
+  ctx.putImageData(pixels, 0, 0);
+}
+
+const MaskPainter = ({ image, mask, brush, style, onChange }: { image: ImageFile; mask: ImageMask | null; brush: BrushSettings; style: React.CSSProperties; onChange: (data: string | null) => void }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null);
+  const featherRef = useRef(brush.feather);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(image.data).then(async img => {
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      canvas.width = img.width;
+      canvas.height = img.height;
+      if (mask) await paintMaskInto(canvas, mask.data);
+    }).catch(err => console.error("Could not load image for mask painting", err));
+    return () => { cancelled = true; };
+  }, [image.data]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!mask && canvas) canvas.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+  }, [mask]);
+
+  useEffect(() => {
+    if (featherRef.current === brush.feather) return;
+    featherRef.current = brush.feather;
+    if (mask && canvasRef.current) onChange(exportMask(canvasRef.current, brush.feather));
+  }, [brush.feather]);
+
+  // Maps a pointer position to image pixels, accounting for zoom/pan transforms and object-contain letterboxing.
+  const toImagePoint = (e: React.PointerEvent) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    const scale = Math.min(rect.width / canvas.width, rect.height / canvas.height);
+    const offsetX = (rect.width - canvas.width * scale) / 2, offsetY = (rect.height - canvas.height * scale) / 2;
+    return { x: (e.clientX - rect.left - offsetX) / scale, y: (e.clientY - rect.top - offsetY) / scale, scale };
+  };
+
+  const strokeTo = (e: React.PointerEvent) => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    const p = toImagePoint(e);
+    const from = lastPoint.current ?? p;
+    ctx.globalCompositeOperation = brush.tool === "eraser" ? "destination-out" : "source-over";
+    ctx.strokeStyle = `rgb(${MASK_PREVIEW_RGB.join(",")})`;
+    ctx.lineWidth = brush.size / p.scale;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(p.x, p.y);
+    ctx.stroke();
+    lastPoint.current = p;
+  };
+
+  const trackCursor = (e: React.PointerEvent) => {
+    const parent = canvasRef.current?.parentElement?.getBoundingClientRect();
+    if (parent) setCursor({ x: e.clientX - parent.left, y: e.clientY - parent.top });
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = null;
+    strokeTo(e);
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    trackCursor(e);
+    if (lastPoint.current) strokeTo(e);
+  };
+  const onPointerUp = () => {
+    if (!lastPoint.current) return;
+    lastPoint.current = null;
+    if (canvasRef.current) onChange(exportMask(canvasRef.current, brush.feather));
+  };
+
+  return (
+    <>
+      <canvas ref={canvasRef} style={{ ...style, touchAction: "none" }} className="absolute inset-0 w-full h-full object-contain opacity-50 z-20 cursor-none"
+        onPointerDown={onPointerDown} onPointerMove={onPointerMove} onPointerUp={onPointerUp} onPointerCancel={onPointerUp} onPointerLeave={() => setCursor(null)} />
+      {cursor && <div className="absolute z-30 rounded-full border-2 border-white shadow pointer-events-none -translate-x-1/2 -translate-y-1/2 mix-blend-difference"
+        style={{ left: cursor.x, top: cursor.y, width: brush.size, height: brush.size }} />}
+    </>
+  );
+};
+
+type CropHandle = "move" | "nw" | "ne" | "sw" | "se";
+const CROP_MIN_SIZE = 16;
+
+// Crop frame over the straightened original. The rect is kept locally while dragging and committed on release so one drag is one undo step.
+const CropOverlay = ({ image, crop, onChange }: { image: ImageFile; crop: CropSettings; onChange: (settings: Partial<CropSettings>) => void }) => {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const size = useImageSize(image.data);
+  const [draft, setDraft] = useState<CropRect | null>(null);
+  const drag = useRef<{ handle: CropHandle; start: { x: number; y: number }; rect: CropRect } | null>(null);
+
+  if (!size) return null;
+  const { width: W, height: H } = size;
+  const rect = draft ?? resolveCropRect(crop, W, H);
+  const aspect = cropAspect(crop, W, H);
+
+  const toImagePoint = (e: React.PointerEvent) => {
+    const box = boxRef.current!.getBoundingClientRect();
+    return { x: Math.min(W, Math.max(0, (e.clientX - box.left) / box.width * W)), y: Math.min(H, Math.max(0, (e.clientY - box.top) / box.height * H)) };
+  };
+
+  const onPointerDown = (handle: CropHandle) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { handle, start: toImagePoint(e), rect };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d) return;
+    const p = toImagePoint(e), r = d.rect;
+    if (d.handle === "move") {
+      setDraft({ ...r, x: Math.min(W - r.w, Math.max(0, r.x + p.x - d.start.x)), y: Math.min(H - r.h, Math.max(0, r.y + p.y - d.start.y)) });
+      return;
+    }
+    // Corner drags pivot on the opposite corner.
+    const ax = d.handle.includes("w") ? r.x + r.w : r.x, ay = d.handle.includes("n") ? r.y + r.h : r.y;
+    let w = Math.max(CROP_MIN_SIZE, Math.abs(p.x - ax)), h = Math.max(CROP_MIN_SIZE, Math.abs(p.y - ay));
+    if (aspect) { if (w / h > aspect) h = w / aspect; else w = h * aspect; }
+    const maxW = d.handle.includes("w") ? ax : W - ax, maxH = d.handle.includes("n") ? ay : H - ay;
+    const fit = Math.min(1, maxW / w, maxH / h);
+    w *= fit; h *= fit;
+    setDraft({ x: d.handle.includes("w") ? ax - w : ax, y: d.handle.includes("n") ? ay - h : ay, w, h });
+  };
+
+  const onPointerUp = () => {
+    if (!drag.current) return;
+    drag.current = null;
+    if (draft) onChange({ x: draft.x / W, y: draft.y / H, w: draft.w / W, h: draft.h / H });
+    setDraft(null);
+  };
+
+  const pct = (v: number, total: number) => `${(v / total) * 100}%`;
+  const handles: CropHandle[] = ["nw", "ne", "sw", "se"];
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center overflow-hidden bg-black/80" onPointerMove={onPointerMove} onPointerUp={onPointerUp} onPointerCancel={onPointerUp}>
+      <div ref={boxRef} className="relative" style={W / H > 4 / 5 ? { width: "100%", aspectRatio: `${W} / ${H}` } : { height: "100%", aspectRatio: `${W} / ${H}` }}>
+        <img src={image.data} alt="Crop source" className="absolute inset-0 w-full h-full" style={{ transform: `rotate(${crop.angle}deg)` }} draggable={false} />
+        {/* Level guide: a fine grid across the whole frame for judging horizontals while straightening. */}
+        {crop.angle !== 0 && <div className="absolute inset-0 pointer-events-none opacity-40" style={{ backgroundImage: "linear-gradient(to right, white 1px, transparent 1px), linear-gradient(to bottom, white 1px, transparent 1px)", backgroundSize: "10% 10%" }} />}
+        <div className="absolute border-2 border-white cursor-move" style={{ left: pct(rect.x, W), top: pct(rect.y, H), width: pct(rect.w, W), height: pct(rect.h, H), boxShadow: "0 0 0 9999px rgba(0,0,0,0.55)", touchAction: "none" }}
+          onPointerDown={onPointerDown("move")}>
+          {/* Rule-of-thirds grid */}
+          <div className="absolute inset-0 pointer-events-none" style={{ backgroundImage: "linear-gradient(to right, transparent calc(33.33% - 0.5px), rgba(255,255,255,0.6) calc(33.33% - 0.5px), rgba(255,255,255,0.6) calc(33.33% + 0.5px), transparent calc(33.33% + 0.5px), transparent calc(66.67% - 0.5px), rgba(255,255,255,0.6) calc(66.67% - 0.5px), rgba(255,255,255,0.6) calc(66.67% + 0.5px), transparent calc(66.67% + 0.5px)), linear-gradient(to bottom, transparent calc(33.33% - 0.5px), rgba(255,255,255,0.6) calc(33.33% - 0.5px), rgba(255,255,255,0.6) calc(33.33% + 0.5px), transparent calc(33.33% + 0.5px), transparent calc(66.67% - 0.5px), rgba(255,255,255,0.6) calc(66.67% - 0.5px), rgba(255,255,255,0.6) calc(66.67% + 0.5px), transparent calc(66.67% + 0.5px))" }} />
+          {handles.map(h => (
+            <div key={h} role="slider" aria-label={`Crop corner ${h}`} aria-valuenow={Math.round(rect.w)}
+              className={cn("absolute w-4 h-4 bg-white border border-black/40 rounded-sm", h.includes("n") ? "-top-2" : "-bottom-2", h.includes("w") ? "-left-2" : "-right-2", h === "nw" || h === "se" ? "cursor-nwse-resize" : "cursor-nesw-resize")}
+              onPointerDown={onPointerDown(h)} />
+          ))}
+        </div>
+      </div>
+      <span className="absolute bottom-2 left-2 px-2 py-0.5 text-xs font-mono rounded bg-black/60 text-white pointer-events-none">{Math.round(rect.w)}×{Math.round(rect.h)}{crop.angle !== 0 && ` · ${crop.angle.toFixed(1)}°`}</span>
+    </div>
+  );
+};
+
+type CompareMode = "slider" | "side" | "toggle" | "difference" | "onion";
+const COMPARE_MODE_LABELS: Record<CompareMode, string> = { slider: "Split slider", side: "Side by side", toggle: "A/B toggle", difference: "Difference", onion: "Onion skin" };
+type ViewTransform = { zoom: number; pan: { x: number; y: number } };
+type LoupeView = { x: number; y: number; src: string; width: number; height: number; left: number; top: number };
+type Pane = { index: number; left: number; top: number; width: number; height: number };
+
+// Zooms about a point given relative to the pane centre, keeping the image pixel under it in place.
+function zoomAbout(view: ViewTransform, zoom: number, point: { x: number; y: number }): ViewTransform {
+  const next = Math.min(VIEWER_MAX_ZOOM, Math.max(1, zoom));
+  if (next <= 1) return { zoom: 1, pan: { x: 0, y: 0 } };
+  const k = next / view.zoom;
+  return { zoom: next, pan: { x: point.x - (point.x - view.pan.x) * k, y: point.y - (point.y - view.pan.y) * k } };
+}
+
+function useImageSize(src: string | null | undefined) {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  useEffect(() => {
+    setSize(null);
+    if (!src) return;
+    let cancelled = false;
+    loadImage(src).then(img => { if (!cancelled) setSize({ width: img.width, height: img.height }); })
+      .catch(err => console.error("Could not read image size", err));
+    return () => { cancelled = true; };
+  }, [src]);
+  return size;
+}
+
 const ImageViewer = () => {
-  const { state } = useAppContext();
-  const { currentImage, enhancedImage, isLoading } = state;
+  const { state, dispatch } = useAppContext();
+  const { currentImage, enhancedImage, enhancedBase, mask, compareWith, enhanceProgress, isLoading, tools, candidates, customModels } = state;
+  const activeResultCached = useActiveResultCached();
+  const gesture = useEditGesture();
   const [sliderPos, setSliderPos] = useState(50);
   const sliderRef = useRef<HTMLDivElement>(null);
   const [loadingMessage, setLoadingMessage] = useState(ENHANCEMENT_LOADING_MESSAGES[0]);
 
-  const [zoom, setZoom] = useState(1);
-  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [view, setView] = useState<ViewTransform>({ zoom: 1, pan: { x: 0, y: 0 } });
   const [isPanning, setIsPanning] = useState(false);
   const [isSliding, setIsSliding] = useState(false);
   const panStartRef = useRef({ x: 0, y: 0 });
+  // Pointers currently down on the viewer; two of them make a pinch.
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<{ distance: number; view: ViewTransform } | null>(null);
+  const onWheelRef = useRef<((e: WheelEvent) => void) | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>("slider");
+  const [showBefore, setShowBefore] = useState(false);
+  const [flicker, setFlicker] = useState(false);
+  const [onionOpacity, setOnionOpacity] = useState(50);
+  const [loupe, setLoupe] = useState(false);
+  const [loupeView, setLoupeView] = useState<LoupeView | null>(null);
+  const [maskMode, setMaskMode] = useState(false);
+  const [cropMode, setCropMode] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+  const [heatmap, setHeatmap] = useState<string | null>(null);
+  const [maskScope, setMaskScope] = useState<ImageMask["scope"]>("removal");
+  const [brush, setBrush] = useState<BrushSettings>({ tool: "brush", size: 40, feather: 8 });
+  const size = useImageSize(currentImage?.data);
 
   useEffect(() => {
     if (isLoading) {
@@ -618,69 +3553,296 @@ const ImageViewer = () => {
     }
   }, [isLoading]);
 
+  useEffect(() => {
+    setHeatmap(null);
+    if (!showDiff || !currentImage || !enhancedImage) return;
+    let cancelled = false;
+    diffHeatmap(currentImage, enhancedImage, tools)
+      .then(url => { if (!cancelled) setHeatmap(url); })
+      .catch(e => console.error("Could not build difference heatmap", e));
+    return () => { cancelled = true; };
+  }, [showDiff, currentImage, enhancedImage, tools.crop]);
+
+  // A model comparison opens side by side, one pane per model.
+  const comparingModels = isModelComparison(candidates);
+  useEffect(() => { if (comparingModels) setCompareMode("side"); }, [comparingModels]);
+
+  useEffect(() => {
+    if (!flicker || compareMode !== "toggle") return;
+    const interval = setInterval(() => setShowBefore(b => !b), FLICKER_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [flicker, compareMode]);
+
+  // React registers wheel listeners as passive, so preventing page scroll needs a native listener.
+  useEffect(() => {
+    const el = sliderRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => onWheelRef.current?.(e);
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, [currentImage]);
+
+  const Placeholder = () => <div className="w-full aspect-[4/5] bg-secondary rounded-lg flex flex-col items-center justify-center border-2 border-dashed border-border text-center p-4"><Upload className="text-muted-foreground mb-4 h-12 w-12" strokeWidth={1.5} /><p className="text-foreground font-semibold">Upload, drop, or paste an image</p><p className="text-muted-foreground text-sm mt-1">to begin your AI-powered enhancement.</p></div>;
+  if (!currentImage) return <div className="flex justify-center"><div className="w-full max-w-2xl"><Placeholder /></div></div>;
+
+  const { zoom, pan } = view;
+  const imageStyle = { transform: `scale(${zoom}) translate(${pan.x / zoom}px, ${pan.y / zoom}px)`, transformOrigin: 'center center', willChange: 'transform' } as const;
+  const canPan = zoom > 1;
+  // With local tone enabled, the "after" side is rendered live from the ungraded result (or the original before enhancing).
+  const tonePreviewSrc = usesLocalTone(tools.colorTone) ? (enhancedImage ? enhancedBase : currentImage.data) : null;
+  const hasAfter = !!(enhancedImage || tonePreviewSrc) && !isLoading && !maskMode && !cropMode;
+  const sideBySide = hasAfter && compareMode === "side";
+  const modelPanes = sideBySide && comparingModels ? candidates : null;
+  const paneCount = modelPanes ? modelPanes.length + 1 : sideBySide ? 2 : 1;
+  const beforeSrc = compareWith && !maskMode ? compareWith.image : currentImage.data;
+  const beforeLabel = compareWith ? compareWith.label : "Before";
+  const aspect = size ? paneCount * size.width / size.height : 4 / 5;
+  const sourceNote = currentImage.source && size ? describeSource(currentImage.source, size, currentImage.type) : null;
+  const isCached = activeResultCached && !!enhancedImage;
+  const updateCrop = (settings: Partial<CropSettings>) => dispatch({ type: "UPDATE_TOOL", payload: { tool: "crop", settings } });
+  const toggleCropMode = () => {
+    if (!cropMode && (!tools.crop.enabled || tools.crop.mode !== "pixels")) updateCrop({ enabled: true, mode: "pixels" });
+    setCropMode(!cropMode);
+    setMaskMode(false);
+  };
+  const activeScope = mask?.scope ?? maskScope;
+  const setScope = (scope: ImageMask["scope"]) => { setMaskScope(scope); if (mask) dispatch({ type: "SET_MASK", payload: { ...mask, scope } }); };
+
+  // The pane under a client x: the whole viewer, or one column when side by side. All panes share one transform, so they stay in sync.
+  const paneAt = (clientX: number): Pane => {
+    const rect = sliderRef.current!.getBoundingClientRect();
+    const width = rect.width / paneCount;
+    const index = Math.min(paneCount - 1, Math.max(0, Math.floor((clientX - rect.left) / width)));
+    return { index, left: rect.left + index * width, top: rect.top, width, height: rect.height };
+  };
+  const fromPaneCentre = (pane: Pane, x: number, y: number) => ({ x: x - pane.left - pane.width / 2, y: y - pane.top - pane.height / 2 });
+
+  onWheelRef.current = (e: WheelEvent) => {
+    if (maskMode || cropMode || isLoading) return;
+    e.preventDefault();
+    const point = fromPaneCentre(paneAt(e.clientX), e.clientX, e.clientY);
+    setView(v => zoomAbout(v, v.zoom * Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), point));
+  };
+
   const handleSliderMove = (clientX: number) => {
     if (!sliderRef.current) return;
     const rect = sliderRef.current.getBoundingClientRect();
     const x = Math.max(0, Math.min(clientX - rect.left, rect.width));
     setSliderPos((x / rect.width) * 100);
   };
-  
-  const onMouseDown = (e: React.MouseEvent) => {
-    if (zoom > 1) {
-        setIsPanning(true);
-        panStartRef.current = { x: e.clientX - pan.x, y: e.clientY - pan.y };
+
+  const handleSliderKey = (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 10 : 1;
+    const next = e.key === "ArrowLeft" ? sliderPos - step : e.key === "ArrowRight" ? sliderPos + step : e.key === "Home" ? 0 : e.key === "End" ? 100 : null;
+    if (next === null) return;
+    e.preventDefault();
+    setSliderPos(Math.max(0, Math.min(100, next)));
+  };
+
+  // Magnifies whichever image is visible under the pointer, at LOUPE_ZOOM times its on-screen size.
+  const trackLoupe = (e: React.PointerEvent) => {
+    if (!loupe || maskMode || cropMode || isLoading || !size) return;
+    const rect = sliderRef.current!.getBoundingClientRect();
+    const pane = paneAt(e.clientX);
+    const fit = Math.min(pane.width / size.width, pane.height / size.height) * zoom;
+    const dw = size.width * fit, dh = size.height * fit;
+    const u = (e.clientX - (pane.left + pane.width / 2 + pan.x - dw / 2)) / dw, v = (e.clientY - (pane.top + pane.height / 2 + pan.y - dh / 2)) / dh;
+    if (u < 0 || u > 1 || v < 0 || v > 1) return setLoupeView(null);
+    const afterVisible = hasAfter && (
+      compareMode === "slider" ? (e.clientX - rect.left) / rect.width * 100 < sliderPos
+      : compareMode === "side" ? pane.index > 0
+      : compareMode === "toggle" ? !showBefore
+      : true);
+    const width = dw * LOUPE_ZOOM, height = dh * LOUPE_ZOOM;
+    const afterSrc = modelPanes && pane.index > 0 ? modelPanes[pane.index - 1].image : enhancedImage ?? currentImage.data;
+    setLoupeView({
+      x: e.clientX - rect.left, y: e.clientY - rect.top, src: afterVisible ? afterSrc : beforeSrc,
+      width, height, left: LOUPE_SIZE / 2 - u * width, top: LOUPE_SIZE / 2 - v * height,
+    });
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (maskMode || cropMode) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const pointers = pointersRef.current;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.size === 2) {
+      const [a, b] = [...pointers.values()];
+      pinchRef.current = { distance: Math.hypot(a.x - b.x, a.y - b.y) || 1, view };
+      setIsPanning(false);
+    } else if (canPan) {
+      setIsPanning(true);
+      panStartRef.current = { x: e.clientX - pan.x, y: e.clientY - pan.y };
     }
   };
 
-  const onMouseMove = (e: React.MouseEvent) => {
-    if (isSliding) {
-        handleSliderMove(e.clientX);
-    } else if (isPanning && zoom > 1) {
-        setPan({ x: e.clientX - panStartRef.current.x, y: e.clientY - panStartRef.current.y });
+  const onPointerMove = (e: React.PointerEvent) => {
+    trackLoupe(e);
+    if (isSliding) return handleSliderMove(e.clientX);
+    const pointers = pointersRef.current;
+    if (!pointers.has(e.pointerId)) return;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const pinch = pinchRef.current;
+    if (pinch && pointers.size === 2) {
+      const [a, b] = [...pointers.values()];
+      const mx = (a.x + b.x) / 2, my = (a.y + b.y) / 2;
+      setView(zoomAbout(pinch.view, pinch.view.zoom * Math.hypot(a.x - b.x, a.y - b.y) / pinch.distance, fromPaneCentre(paneAt(mx), mx, my)));
+    } else if (isPanning && canPan) {
+      setView(v => ({ ...v, pan: { x: e.clientX - panStartRef.current.x, y: e.clientY - panStartRef.current.y } }));
     }
   };
 
-  const onMouseUp = () => { setIsPanning(false); setIsSliding(false); };
-  const handleZoom = (e: React.ChangeEvent<HTMLInputElement>) => { const newZoom = parseFloat(e.target.value); setZoom(newZoom); if (newZoom <= 1) setPan({ x: 0, y: 0 }); };
-  const resetZoomAndPan = () => { setZoom(1); setPan({ x: 0, y: 0 }); };
-  
-  const Placeholder = () => <div className="w-full aspect-[4/5] bg-secondary rounded-lg flex flex-col items-center justify-center border-2 border-dashed border-border text-center p-4"><Upload className="text-muted-foreground mb-4 h-12 w-12" strokeWidth={1.5} /><p className="text-foreground font-semibold">Upload, drop, or paste an image</p><p className="text-muted-foreground text-sm mt-1">to begin your AI-powered enhancement.</p></div>;
-  if (!currentImage) return <div className="flex justify-center"><div className="w-full max-w-2xl"><Placeholder /></div></div>;
+  const onPointerUp = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size < 2) pinchRef.current = null;
+    setIsPanning(false);
+    setIsSliding(false);
+  };
+
+  const handleZoom = (e: React.ChangeEvent<HTMLInputElement>) => { const z = parseFloat(e.target.value); setView(v => zoomAbout(v, z, { x: 0, y: 0 })); };
+  const resetZoomAndPan = () => setView({ zoom: 1, pan: { x: 0, y: 0 } });
 
-  const imageStyle = { transform: `scale(${zoom}) translate(${pan.x / zoom}px, ${pan.y / zoom}px)`, transformOrigin: 'center center', willChange: 'transform' } as const;
-  const canPan = zoom > 1;
+  const cornerLabel = (text: string, className?: string) =>
+    <span className={cn("absolute top-2 z-20 px-2 py-0.5 text-xs font-medium rounded bg-black/60 text-white pointer-events-none", className ?? "right-2")}>{text}</span>;
+  const beforeLayer = <img src={beforeSrc} alt={compareWith ? compareWith.label : "Original"} style={imageStyle} className="absolute inset-0 w-full h-full object-contain" draggable={false} />;
+  const afterLayer = (wrapperStyle?: React.CSSProperties) => (
+    <div className="absolute inset-0 w-full h-full" style={wrapperStyle}>
+      {tonePreviewSrc
+        ? <ColorTonePreview src={tonePreviewSrc} colorTone={tools.colorTone} style={imageStyle} className="absolute inset-0 w-full h-full object-contain" />
+        : <img src={enhancedImage!} alt="Enhanced" style={imageStyle} className="absolute inset-0 w-full h-full object-contain" draggable={false} />}
+      {showDiff && heatmap && <img src={heatmap} alt="Difference from original" style={imageStyle} className="absolute inset-0 w-full h-full object-contain pointer-events-none" draggable={false} />}
+    </div>
+  );
 
   return (
     <div className="flex flex-col items-center">
       <div className="w-full max-w-2xl">
-        <div ref={sliderRef} className={cn("relative select-none w-full aspect-[4/5] rounded-lg overflow-hidden border border-border shadow-lg", canPan ? (isPanning ? 'cursor-grabbing' : 'cursor-grab') : 'cursor-auto')}
-            onMouseDown={onMouseDown} onMouseMove={onMouseMove} onMouseUp={onMouseUp} onMouseLeave={onMouseUp}>
-          <img src={currentImage.data} alt="Original" style={imageStyle} className="absolute inset-0 w-full h-full object-contain" draggable={false} />
-          {enhancedImage && !isLoading && (
+        <div ref={sliderRef} className={cn("relative isolate select-none w-full mx-auto rounded-lg overflow-hidden border border-border shadow-lg", canPan && !maskMode ? (isPanning ? 'cursor-grabbing' : 'cursor-grab') : 'cursor-auto')}
+            style={{ aspectRatio: aspect, maxWidth: `calc(75vh * ${aspect})`, touchAction: "none" }}
+            onPointerDown={onPointerDown} onPointerMove={onPointerMove} onPointerUp={onPointerUp} onPointerCancel={onPointerUp} onPointerLeave={() => setLoupeView(null)}>
+          {modelPanes ? (
+            <div className="absolute inset-0 grid gap-px bg-border" style={{ gridTemplateColumns: `repeat(${paneCount}, minmax(0, 1fr))` }}>
+              <div className="relative overflow-hidden bg-background">{beforeLayer}{cornerLabel(beforeLabel, "left-2")}</div>
+              {modelPanes.map(c => (
+                <div key={c.id} className={cn("relative overflow-hidden bg-background", c.image === enhancedImage && "ring-2 ring-inset ring-primary")}>
+                  <img src={c.image} alt={modelLabel(c.model, allModels(customModels))} style={imageStyle} className="absolute inset-0 w-full h-full object-contain" draggable={false} />
+                  {cornerLabel(modelLabel(c.model, allModels(customModels)))}
+                </div>
+              ))}
+            </div>
+          ) : sideBySide ? (
+            <div className="absolute inset-0 grid grid-cols-2 gap-px bg-border">
+              <div className="relative overflow-hidden bg-background">{beforeLayer}{cornerLabel(beforeLabel, "left-2")}</div>
+              <div className="relative overflow-hidden bg-background">{afterLayer()}{cornerLabel("After")}</div>
+            </div>
+          ) : beforeLayer}
+          {hasAfter && compareMode === "slider" && (
             <>
-              <div className="absolute inset-0 w-full h-full" style={{ clipPath: `inset(0 ${100 - sliderPos}% 0 0)` }}>
-                <img src={enhancedImage} alt="Enhanced" style={imageStyle} className="absolute inset-0 w-full h-full object-contain" draggable={false} />
-              </div>
+              {compareWith && cornerLabel(compareWith.label)}
+              {afterLayer({ clipPath: `inset(0 ${100 - sliderPos}% 0 0)` })}
               <div
-                className="absolute top-0 bottom-0 z-10 flex items-center -translate-x-1/2 cursor-ew-resize group"
-                style={{ left: `${sliderPos}%` }}
-                onMouseDown={(e) => { e.stopPropagation(); setIsSliding(true); }}
+                role="slider" tabIndex={0} aria-label="Before/after split" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(sliderPos)}
+                className="absolute top-0 bottom-0 z-10 flex items-center -translate-x-1/2 cursor-ew-resize group focus:outline-none"
+                style={{ left: `${sliderPos}%`, touchAction: "none" }}
+                onPointerDown={(e) => { e.stopPropagation(); e.currentTarget.setPointerCapture(e.pointerId); setIsSliding(true); }}
+                onKeyDown={handleSliderKey}
               >
-                <div className="w-1 h-full bg-white/50 backdrop-blur-sm shadow-md group-hover:bg-white transition-colors" />
-                <div className="absolute grid w-12 h-12 text-white transition-transform rounded-full shadow-lg bg-primary place-items-center group-hover:scale-110">
+                <div className="w-1 h-full bg-white/50 backdrop-blur-sm shadow-md group-hover:bg-white group-focus-visible:bg-white transition-colors" />
+                <div className="absolute grid w-12 h-12 text-white transition-transform rounded-full shadow-lg bg-primary place-items-center group-hover:scale-110 group-focus-visible:ring-2 group-focus-visible:ring-white">
                   <Icon name="chevronsLeftRight" size={24} />
                 </div>
               </div>
             </>
           )}
-          {isLoading && <div className="absolute inset-0 bg-background/80 backdrop-blur-sm flex flex-col justify-center items-center text-center p-4"><div className="loader"></div><p className="mt-4 text-foreground font-semibold">{loadingMessage}</p></div>}
+          {hasAfter && compareMode === "toggle" && (
+            <>
+              {!showBefore && afterLayer()}
+              {cornerLabel(showBefore ? beforeLabel : "After")}
+            </>
+          )}
+          {hasAfter && compareMode === "difference" && (
+            <>
+              {afterLayer({ mixBlendMode: "difference" })}
+              {cornerLabel("Difference")}
+            </>
+          )}
+          {hasAfter && compareMode === "onion" && afterLayer({ opacity: onionOpacity / 100 })}
+          {loupeView && (
+            <div className="absolute z-30 rounded-full overflow-hidden border-2 border-white shadow-xl pointer-events-none -translate-x-1/2 -translate-y-1/2 bg-background"
+              style={{ left: loupeView.x, top: loupeView.y, width: LOUPE_SIZE, height: LOUPE_SIZE }}>
+              <img src={loupeView.src} alt="" className="absolute max-w-none" style={{ left: loupeView.left, top: loupeView.top, width: loupeView.width, height: loupeView.height }} draggable={false} />
+            </div>
+          )}
+          {cropMode && !isLoading && <CropOverlay image={currentImage} crop={tools.crop} onChange={updateCrop} />}
+          {maskMode && !isLoading && <MaskPainter image={currentImage} mask={mask} brush={brush} style={imageStyle} onChange={data => dispatch({ type: "SET_MASK", payload: data ? { data, scope: activeScope } : null })} />}
+          {isLoading && <div className="absolute inset-0 bg-background/80 backdrop-blur-sm flex flex-col justify-center items-center text-center p-4"><div className="loader"></div><p className="mt-4 text-foreground font-semibold">{enhanceProgress ? `Upscaling tile ${enhanceProgress.done} of ${enhanceProgress.total}...` : loadingMessage}</p>
+            {enhanceProgress && <div className="mt-3 w-48 h-1.5 rounded-full bg-secondary overflow-hidden"><div className="h-full bg-primary transition-all" style={{ width: `${(enhanceProgress.done / enhanceProgress.total) * 100}%` }} /></div>}</div>}
         </div>
-        {enhancedImage && !isLoading && (
-          <div className="w-full bg-card border border-border rounded-lg p-3 mt-4 flex items-center justify-between gap-4 shadow-sm">
-            <Label htmlFor="zoom-slider" className="text-sm font-medium">Zoom</Label>
-            <Slider id="zoom-slider" min="1" max="4" step="0.05" value={zoom} onChange={handleZoom} className="flex-grow" />
-            <span className="text-sm font-mono w-12 text-center">{zoom.toFixed(2)}x</span>
-            <Button variant="secondary" onClick={resetZoomAndPan} className="h-8 px-3">Reset</Button>
+        {(sourceNote || isCached) && <p className="mt-2 text-xs text-center text-muted-foreground">{isCached && <CachedBadge className="mr-2" />}{sourceNote}</p>}
+        {!isLoading && (
+          <div className="w-full bg-card border border-border rounded-lg p-3 mt-4 shadow-sm space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="zoom-slider" className="text-sm font-medium">Zoom</Label>
+              <Slider id="zoom-slider" min="1" max={VIEWER_MAX_ZOOM} step="0.05" value={zoom} onChange={handleZoom} className="flex-grow" />
+              <span className="text-sm font-mono w-12 text-center">{zoom.toFixed(2)}x</span>
+              <Button variant="secondary" onClick={resetZoomAndPan} className="h-8 px-3">Reset</Button>
+              <Button variant={loupe ? "primary" : "secondary"} onClick={() => { setLoupe(!loupe); setLoupeView(null); }} className="h-8 px-3" aria-pressed={loupe} title="Magnifier loupe"><Icon name="loupe" size={16} />Loupe</Button>
+              <Button variant={showDiff ? "primary" : "secondary"} onClick={() => setShowDiff(!showDiff)} disabled={!enhancedImage} className="h-8 px-3" aria-pressed={showDiff} title="Overlay where the result differs from the original"><Icon name="diff" size={16} />Diff</Button>
+              <Button variant={cropMode ? "primary" : "secondary"} onClick={toggleCropMode} className="h-8 px-3" aria-pressed={cropMode} title="Crop and straighten"><Icon name="crop" size={16} />Crop{usesPixelCrop(tools.crop) && !cropMode ? " •" : ""}</Button>
+              <Button variant={maskMode ? "primary" : "secondary"} onClick={() => { setMaskMode(!maskMode); setCropMode(false); }} className="h-8 px-3" aria-pressed={maskMode} title="Paint a mask to limit edits"><Icon name="brush" size={16} />Mask{mask && !maskMode ? " •" : ""}</Button>
+            </div>
+            {hasAfter && (
+              <div className="flex flex-wrap items-center gap-3 pt-3 border-t border-border">
+                <Select aria-label="Comparison mode" value={compareMode} onChange={e => setCompareMode(e.target.value as CompareMode)} className="h-8 text-xs w-36">
+                  {(Object.keys(COMPARE_MODE_LABELS) as CompareMode[]).map(mode => <option key={mode} value={mode}>{COMPARE_MODE_LABELS[mode]}</option>)}
+                </Select>
+                {compareMode === "toggle" && (
+                  <>
+                    <Button variant="secondary" onClick={() => { setFlicker(false); setShowBefore(!showBefore); }} className="h-8 px-3" title="Switch between before and after">Show {showBefore ? "after" : "before"}</Button>
+                    <Button variant={flicker ? "primary" : "secondary"} onClick={() => setFlicker(!flicker)} className="h-8 px-3" aria-pressed={flicker}><Icon name={flicker ? "pause" : "play"} size={16} />Flicker</Button>
+                  </>
+                )}
+                {compareMode === "onion" && (
+                  <>
+                    <Label htmlFor="onion-opacity" className="text-xs">After opacity</Label>
+                    <Slider id="onion-opacity" min="0" max="100" value={onionOpacity} onChange={e => setOnionOpacity(+e.target.value)} className="w-32" />
+                    <span className="text-xs font-mono w-10">{onionOpacity}%</span>
+                  </>
+                )}
+                {compareMode === "slider" && <span className="text-xs text-muted-foreground">Drag the handle or focus it and use the arrow keys.</span>}
+              </div>
+            )}
+            {cropMode && (
+              <div className="flex flex-wrap items-center gap-3 pt-3 border-t border-border">
+                <CropAspectSelect crop={tools.crop} onChange={updateCrop} className="w-auto" />
+                <Label htmlFor="crop-angle" className="text-xs">Straighten</Label>
+                <Slider {...gesture.drag} id="crop-angle" min="-45" max="45" step="0.1" value={tools.crop.angle} onChange={e => updateCrop({ angle: +e.target.value })} onDoubleClick={() => updateCrop({ angle: 0 })} className="w-32" />
+                <span className="text-xs font-mono w-12">{tools.crop.angle.toFixed(1)}°</span>
+                <Select aria-label="Apply crop" value={tools.crop.stage} onChange={e => updateCrop({ stage: e.target.value as CropSettings["stage"] })} className="h-8 text-xs w-44">
+                  <option value="before">Before enhancement</option>
+                  <option value="after">After enhancement</option>
+                </Select>
+                <Button variant="secondary" onClick={() => updateCrop({ x: 0, y: 0, w: 1, h: 1, angle: 0 })} className="h-8 px-3">Reset</Button>
+              </div>
+            )}
+            {maskMode && (
+              <div className="flex flex-wrap items-center gap-3 pt-3 border-t border-border">
+                <div className="flex gap-1">
+                  <Button variant={brush.tool === "brush" ? "primary" : "secondary"} onClick={() => setBrush({ ...brush, tool: "brush" })} className="h-8 px-2" aria-label="Brush"><Icon name="brush" size={16} /></Button>
+                  <Button variant={brush.tool === "eraser" ? "primary" : "secondary"} onClick={() => setBrush({ ...brush, tool: "eraser" })} className="h-8 px-2" aria-label="Eraser"><Icon name="eraser" size={16} /></Button>
+                </div>
+                <Label htmlFor="brush-size" className="text-xs">Size</Label>
+                <Slider id="brush-size" min="4" max="200" value={brush.size} onChange={e => setBrush({ ...brush, size: +e.target.value })} className="w-24" />
+                <Label htmlFor="brush-feather" className="text-xs">Feather</Label>
+                <Slider id="brush-feather" min="0" max="50" value={brush.feather} onChange={e => setBrush({ ...brush, feather: +e.target.value })} className="w-24" />
+                <Select aria-label="Mask scope" value={activeScope} onChange={e => setScope(e.target.value as ImageMask["scope"])} className="h-8 text-xs w-36">
+                  <option value="removal">Distraction removal</option>
+                  <option value="all">All edits</option>
+                </Select>
+                <Button variant="secondary" onClick={() => dispatch({ type: "SET_MASK", payload: null })} disabled={!mask} className="h-8 px-3">Clear</Button>
+                {activeScope === "removal" && !tools.distractions.enabled && <p className="w-full text-xs text-muted-foreground">Enable "Remove Distractions" to use this mask.</p>}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -688,33 +3850,295 @@ const ImageViewer = () => {
   );
 };
 
-interface HeaderProps { onEnhance: () => void; onUpload: (files: FileList) => void; onLibraryOpen: () => void; }
-const Header = ({ onEnhance, onUpload, onLibraryOpen }: HeaderProps) => {
+const VersionTimeline = () => {
+  const { state, dispatch } = useAppContext();
+  const { currentImage, enhancedLibrary, activeItemId, compareWith, isLoading } = state;
+  const sourceKey = useMemo(() => currentImage ? imageKey(currentImage) : null, [currentImage]);
+  const versions = useMemo(() => sourceKey ? orderVersions(enhancedLibrary.filter(e => e.sourceKey === sourceKey)) : [], [enhancedLibrary, sourceKey]);
+  if (versions.length === 0) return null;
+
+  const fail = (e: unknown) => dispatch({ type: "SHOW_TOAST", payload: { message: e instanceof Error ? e.message : "Could not load version.", type: "error" } });
+  const open = async (entry: LibraryEntry) => {
+    try { dispatch({ type: "SELECT_BATCH_ITEM", payload: await libraryStore.load(entry) }); } catch (e) { fail(e); }
+  };
+  const compare = async (entry: LibraryEntry, number: number) => {
+    if (compareWith?.id === entry.id) return dispatch({ type: "SET_COMPARE", payload: null });
+    try {
+      const item = await libraryStore.load(entry);
+      if (item.result) dispatch({ type: "SET_COMPARE", payload: { id: entry.id, image: item.result, label: `v${number}` } });
+    } catch (e) { fail(e); }
+  };
+
+  return (
+    <Card className="p-3 bg-white lg:w-60 w-full flex-shrink-0 h-fit">
+      <h3 className="font-semibold text-foreground mb-1">Versions ({versions.length})</h3>
+      <p className="text-xs text-muted-foreground mb-3">Open a version, then Enhance to branch from it.</p>
+      <ol className="space-y-1 max-h-[60vh] overflow-y-auto">
+        {versions.map(({ entry, depth, number }) => (
+          <li key={entry.id} style={{ paddingLeft: depth * 12 }}>
+            <div className={cn("flex items-center gap-2 p-1 rounded-md hover:bg-secondary", entry.id === activeItemId && "bg-secondary ring-1 ring-primary")}>
+              <button type="button" onClick={() => open(entry)} disabled={isLoading} className="flex items-center gap-2 flex-grow min-w-0 text-left disabled:opacity-50">
+                <img src={entry.thumbnail} alt="" className="w-10 h-10 object-cover rounded bg-secondary flex-shrink-0" />
+                <span className="min-w-0">
+                  <span className="block text-sm font-medium">v{number}{entry.presetName && <span className="font-normal text-muted-foreground"> · {entry.presetName}</span>}</span>
+                  <span className="block text-xs text-muted-foreground truncate">{new Date(entry.createdAt).toLocaleString()}</span>
+                </span>
+              </button>
+              <Button variant={compareWith?.id === entry.id ? "primary" : "ghost"} className="h-7 px-1.5 text-xs" onClick={() => compare(entry, number)} disabled={isLoading} title="Compare the viewed result against this version">A/B</Button>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </Card>
+  );
+};
+
+const CandidateGrid = ({ onKeep }: { onKeep: (ids: string[]) => void }) => {
+  const { state, dispatch } = useAppContext();
+  const { candidates, enhancedImage, isLoading, customModels } = state;
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  useEffect(() => { setSelected(new Set()); }, [candidates.length]);
+  if (candidates.length === 0) return null;
+  const byModel = isModelComparison(candidates);
+  const name = (c: Candidate, i: number) => byModel ? modelLabel(c.model, allModels(customModels)) : `Variant ${i + 1}`;
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+  const ids = [...selected];
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto mt-4 p-4 bg-white">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="font-semibold text-foreground">{byModel ? "Model comparison" : "Variants"} ({candidates.length})</h3>
+        <div className="flex gap-2">
+          <Button variant="primary" onClick={() => onKeep(ids)} disabled={isLoading || ids.length === 0} className="h-9 text-xs">Keep in library ({ids.length})</Button>
+          <Button variant="destructive" onClick={() => dispatch({ type: "DISCARD_CANDIDATES", payload: { ids } })} disabled={isLoading || ids.length === 0} className="h-9 text-xs">Discard ({ids.length})</Button>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {candidates.map((c, i) => (
+          <div key={c.id} className={cn("relative cursor-pointer aspect-square rounded-md overflow-hidden border-2", c.image === enhancedImage ? "border-primary" : "border-transparent")}
+            onClick={() => dispatch({ type: "SELECT_CANDIDATE", payload: { id: c.id } })}>
+            <img src={c.image} alt={name(c, i)} className="w-full h-full object-cover bg-secondary" />
+            <input type="checkbox" aria-label={`Select ${name(c, i)}`} checked={selected.has(c.id)} onClick={e => e.stopPropagation()} onChange={() => toggle(c.id)} className="absolute top-1 left-1 h-4 w-4 accent-primary" />
+            <span className="absolute bottom-1 left-1 max-w-[calc(100%-0.5rem)] truncate px-1.5 text-xs font-medium rounded bg-black/60 text-white">{byModel ? name(c, i) : `#${i + 1}`}</span>
+            {c.kept && <span className="absolute bottom-1 right-1 px-1.5 text-xs font-medium rounded bg-green-600 text-white">kept</span>}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">{byModel ? "Each model has a pane in the side-by-side view above; click a result to make it the active one." : "Click a variant to compare it with the original above."}</p>
+    </Card>
+  );
+};
+
+// Props that open a history gesture for the length of one interaction, so it becomes one undo step (see updateToolHistory).
+// A drag ends on pointerup anywhere, since the pointer often leaves the slider before it is released.
+const useEditGesture = () => {
+  const { dispatch } = useAppContext();
+  return useMemo(() => {
+    const begin = () => dispatch({ type: "BEGIN_EDIT_GESTURE" });
+    const end = () => dispatch({ type: "END_EDIT_GESTURE" });
+    return {
+      drag: {
+        onPointerDown: () => {
+          const listeners = new AbortController();
+          const finish = () => { listeners.abort(); end(); };
+          begin();
+          window.addEventListener("pointerup", finish, { signal: listeners.signal });
+          window.addEventListener("pointercancel", finish, { signal: listeners.signal });
+        },
+      },
+      typing: { onFocus: begin, onBlur: end },
+    };
+  }, [dispatch]);
+};
+
+// Whether the result on screen was served from the cache rather than a fresh request.
+const useActiveResultCached = () => {
+  const { state } = useAppContext();
+  const { activeItemId, batchQueue, enhancedLibrary, refinement } = state;
+  if (!activeItemId || (refinement && refinement.active >= 0)) return false;
+  return !!(batchQueue.find(item => item.id === activeItemId) ?? enhancedLibrary.find(entry => entry.id === activeItemId))?.cached;
+};
+
+const CachedBadge = ({ className }: { className?: string }) => (
+  <span title="Served from the result cache; no API call was made" className={cn("px-2 py-0.5 text-xs font-medium rounded-full bg-sky-100 text-sky-800", className)}>cached</span>
+);
+
+const QualityWarningBadge = ({ metrics, className }: { metrics?: QualityMetrics; className?: string }) => {
+  const { state } = useAppContext();
+  const warnings = qualityWarnings(metrics, state.qualityThresholds);
+  if (warnings.length === 0) return null;
+  return (
+    <span role="img" aria-label="Flagged for review" title={warnings.join("\n")} className={cn("grid place-items-center w-6 h-6 rounded-full bg-amber-100 text-amber-700", className)}>
+      <Icon name="warning" size={14} />
+    </span>
+  );
+};
+
+const QualityPanel = () => {
+  const { state, dispatch } = useAppContext();
+  const { currentImage, enhancedImage, tools, qualityThresholds, isLoading } = state;
+  const [metrics, setMetrics] = useState<QualityMetrics | null>(null);
+  const [showThresholds, setShowThresholds] = useState(false);
+
+  useEffect(() => {
+    setMetrics(null);
+    if (!currentImage || !enhancedImage || isLoading) return;
+    let cancelled = false;
+    const t = setTimeout(() => {
+      analyzeResult(currentImage, enhancedImage, tools)
+        .then(m => { if (!cancelled) setMetrics(m); })
+        .catch(e => console.error("Could not analyze result", e));
+    }, 300);
+    return () => { cancelled = true; clearTimeout(t); };
+  }, [currentImage, enhancedImage, tools.crop, isLoading]);
+
+  if (!enhancedImage || isLoading) return null;
+  const warnings = metrics ? qualityWarnings(metrics, qualityThresholds) : [];
+  const setThreshold = (key: keyof QualityThresholds, value: number) =>
+    dispatch({ type: "SET_QUALITY_THRESHOLDS", payload: parseQualityThresholds({ ...qualityThresholds, [key]: value }) });
+  const rows: { key: keyof QualityThresholds; label: string; value: string; failed: boolean; step: number; max: number }[] = metrics ? [
+    { key: "minSsim", label: "Structure (SSIM)", value: metrics.ssim.toFixed(3), failed: metrics.ssim < qualityThresholds.minSsim, step: 0.05, max: 1 },
+    { key: "minPsnr", label: "PSNR", value: `${metrics.psnr.toFixed(1)} dB`, failed: metrics.psnr < qualityThresholds.minPsnr, step: 1, max: QUALITY_PSNR_CAP },
+    { key: "maxHistogramShift", label: "Colour shift", value: `${Math.round(metrics.histogramShift * 100)}%`, failed: metrics.histogramShift > qualityThresholds.maxHistogramShift, step: 0.05, max: 1 },
+  ] : [];
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto mt-4 p-4 bg-white">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="font-semibold text-foreground">Identity Check</h3>
+        {metrics && (warnings.length > 0
+          ? <span className="px-2 py-1 text-xs font-medium rounded-full bg-amber-100 text-amber-800">Review suggested</span>
+          : <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">Looks consistent</span>)}
+      </div>
+      {!metrics ? <p className="text-sm text-muted-foreground">Comparing result to the original...</p> : (
+        <dl className="grid grid-cols-3 gap-3">
+          {rows.map(row => (
+            <div key={row.key} className={cn("rounded-md border p-2", row.failed ? "border-amber-300 bg-amber-50" : "border-border")}>
+              <dt className="text-xs text-muted-foreground">{row.label}</dt>
+              <dd className="font-mono text-sm">{row.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      <Button variant="ghost" onClick={() => setShowThresholds(!showThresholds)} className="h-8 px-2 mt-2 text-xs" aria-expanded={showThresholds}>
+        <Icon name="chevronDown" size={14} className={cn("transition-transform", showThresholds && "rotate-180")} />Thresholds
+      </Button>
+      {showThresholds && (
+        <div className="grid grid-cols-3 gap-3 mt-2">
+          {([["minSsim", "Min SSIM", 0.05, 1], ["minPsnr", "Min PSNR (dB)", 1, QUALITY_PSNR_CAP], ["maxHistogramShift", "Max colour shift", 0.05, 1]] as const).map(([key, label, step, max]) => (
+            <div key={key}>
+              <Label htmlFor={`quality-${key}`} className="text-xs">{label}</Label>
+              <Input id={`quality-${key}`} type="number" min={0} max={max} step={step} value={qualityThresholds[key]} onChange={e => setThreshold(key, +e.target.value)} className="h-8 text-xs" />
+            </div>
+          ))}
+          <Button variant="ghost" onClick={() => dispatch({ type: "SET_QUALITY_THRESHOLDS", payload: DEFAULT_QUALITY_THRESHOLDS })} className="h-8 px-2 text-xs col-span-3 justify-self-start">Restore defaults</Button>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+interface RefinementPanelProps { onRefine: (instruction: string) => void; onRevert: (index: number) => void; }
+const RefinementPanel = ({ onRefine, onRevert }: RefinementPanelProps) => {
+  const { state } = useAppContext();
+  const { enhancedImage, refinement, isLoading } = state;
+  const [instruction, setInstruction] = useState("");
+  const id = useId();
+  if (!enhancedImage) return null;
+
+  const turns = refinement?.turns ?? [];
+  const active = refinement?.active ?? -1;
+  const submit = () => {
+    const text = instruction.trim();
+    if (!text || isLoading) return;
+    onRefine(text);
+    setInstruction("");
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto mt-4 p-4 bg-white">
+      <h3 className="font-semibold text-foreground mb-3">Refine Result</h3>
+      <ol className="space-y-1 mb-3">
+        {[{ id: "base", instruction: "Original enhancement" }, ...turns].map((turn, i) => (
+          <li key={turn.id}>
+            <button type="button" onClick={() => onRevert(i - 1)} disabled={isLoading}
+              className={cn("w-full text-left text-sm px-2 py-1 rounded-md hover:bg-secondary disabled:opacity-50", i - 1 === active && "bg-secondary font-medium", i - 1 > active && "text-muted-foreground")}>
+              <span className="font-mono text-xs mr-2">{i}</span>{turn.instruction}
+            </button>
+          </li>
+        ))}
+      </ol>
+      <Label htmlFor={id} className="sr-only">Follow-up instruction</Label>
+      <Textarea id={id} value={instruction} onChange={e => setInstruction(e.target.value)} disabled={isLoading}
+        onKeyDown={e => { if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) { e.preventDefault(); submit(); } }}
+        placeholder="e.g. slightly less smoothing on the forehead" />
+      <div className="flex items-center justify-between mt-2">
+        <p className="text-xs text-muted-foreground">{active < turns.length - 1 ? "Refining from an earlier turn replaces the turns after it." : "Ctrl+Enter to send."}</p>
+        <Button variant="primary" onClick={submit} disabled={!instruction.trim() || isLoading} className="h-9"><Icon name="enhance" size={16} />Refine</Button>
+      </div>
+    </Card>
+  );
+};
+
+interface HeaderProps { onEnhance: () => void; onRegenerate: () => void; onUpload: (files: FileList) => void; onLibraryOpen: () => void; onProjectOpen: (file: File) => void; onManifestOpen: () => void; onUsageOpen: () => void; onModelsOpen: () => void; }
+const Header = ({ onEnhance, onRegenerate, onUpload, onLibraryOpen, onProjectOpen, onManifestOpen, onUsageOpen, onModelsOpen }: HeaderProps) => {
   const { state, dispatch } = useAppContext();
-  const { isLoading, currentImage, enhancedImage, historyIndex, history, tools, currentPrompt, batchQueue } = state;
+  const { isLoading, currentImage, enhancedImage, historyIndex, history, tools, currentPrompt, refinement, batchQueue, batchPaused, activeProvider, activeModel, variantCount, ingestMaxEdge } = state;
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
   const [open, setOpen] = useState(false);
   const [exportFormat, setExportFormat] = useState<'png' | 'jpeg' | 'webp'>('png');
   const [exportQuality, setExportQuality] = useState(92);
+  const [exportProfile, setExportProfile] = useState<ExportProfile | undefined>();
+  const [isProfilesOpen, setProfilesOpen] = useState(false);
 
   const hasPendingBatch = useMemo(() => batchQueue.some(item => item.status === 'pending'), [batchQueue]);
-  const isProcessing = useMemo(() => isLoading || batchQueue.some(item => item.status === 'processing'), [isLoading, batchQueue]);
-  const canEnhance = useMemo(() => (currentImage || hasPendingBatch) && !isProcessing && apiKey, [currentImage, hasPendingBatch, isProcessing, apiKey]);
+  const isCached = useActiveResultCached();
+  const isProcessing = useMemo(() => isLoading || batchQueue.some(item => item.status === 'processing' || item.status === 'retrying'), [isLoading, batchQueue]);
+  const canEnhance = useMemo(() => (currentImage || hasPendingBatch) && !isProcessing && ENHANCEMENT_PROVIDERS[activeProvider].isAvailable(), [currentImage, hasPendingBatch, isProcessing, activeProvider]);
+  const imageModels = useMemo(() => allModels(state.customModels).filter(m => m.imageOutput), [state.customModels]);
+  // Exports credit the model that made the shown result, which differs from the active one after a comparison.
+  const resultModel = state.candidates.find(c => c.image === enhancedImage)?.model ?? activeModel;
 
 
   const download = async (type: "png" | "jpeg" | "webp" | "txt" | "json") => {
     if (!enhancedImage || !currentImage) return;
     const base = currentImage.name.replace(/\.[^.]+$/, "");
-    if (type === "txt") { downloadFile(currentPrompt, `${base}-prompt.txt`, "text/plain"); } 
-    else if (type === "json") { downloadFile(JSON.stringify(tools, null, 2), `${base}-recipe.json`, "application/json"); }
-    else {
-        let imageData = enhancedImage;
-        if (type !== 'png') imageData = await convertImage(enhancedImage, `image/${type}`, exportQuality);
-        const a = document.createElement("a"); a.href = imageData; a.download = `${base}-enhanced.${type}`; document.body.appendChild(a); a.click(); document.body.removeChild(a); 
+    try {
+      if (type === "txt") { downloadFile(currentPrompt, `${base}-prompt.txt`, "text/plain"); }
+      else if (type === "json") { downloadFile(JSON.stringify(buildRecipe(tools, refinement), null, 2), `${base}-recipe.json`, "application/json"); }
+      else if (exportProfile) {
+          const provenance = await buildProvenance(currentImage, resultModel, currentPrompt, tools);
+          const { bytes, quality, fits } = await exportWithProfile(enhancedImage, exportProfile, currentImage, provenance);
+          downloadBlob(new Blob([bytes], { type: `image/${exportProfile.format}` }), `${base}-${slugify(exportProfile.name)}.${exportProfile.format === 'jpeg' ? 'jpg' : exportProfile.format}`);
+          if (!fits) dispatch({ type: "SHOW_TOAST", payload: { message: `Could not reach ${exportProfile.maxKB} KB; saved ${formatBytes(bytes.length)} at lowest quality.`, type: "error" } });
+          else if (quality !== exportProfile.quality) dispatch({ type: "SHOW_TOAST", payload: { message: `Saved ${formatBytes(bytes.length)} at quality ${quality} to fit ${exportProfile.maxKB} KB.`, type: "success" } });
+      }
+      else {
+          const provenance = await buildProvenance(currentImage, resultModel, currentPrompt, tools);
+          const bytes = await encodeWithMetadata(enhancedImage, type, exportQuality, currentImage, provenance);
+          downloadBlob(new Blob([bytes], { type: `image/${type}` }), `${base}-enhanced.${type}`);
+      }
+    } catch (e) {
+      console.error("Could not export image", e);
+      dispatch({ type: "SHOW_TOAST", payload: { message: `Could not export the image. ${e instanceof Error ? e.message : ""}`.trim(), type: "error" } });
+    } finally {
+      setOpen(false);
     }
-    setOpen(false);
   };
   
+  const saveProject = () => {
+    const workspace = captureWorkspace(state);
+    const base = slugify(currentImage?.name.replace(/\.[^.]+$/, "") ?? "") || "workspace";
+    downloadBlob(packProject(workspace), `${base}-${new Date().toISOString().slice(0, 10)}${PROJECT_FILE_EXTENSION}`);
+    dispatch({ type: "SHOW_TOAST", payload: { message: `Saved project with ${workspaceImageCount(workspace)} image(s).`, type: "success" } });
+  };
+
   const handleCopyPrompt = () => { if(!currentPrompt) return; navigator.clipboard.writeText(currentPrompt); dispatch({ type: "SHOW_TOAST", payload: { message: "Prompt copied to clipboard!", type: 'success' } }); };
 
   return (
@@ -724,49 +4148,275 @@ const Header = ({ onEnhance, onUpload, onLibraryOpen }: HeaderProps) => {
       <div className="flex flex-wrap items-center justify-center gap-2 mt-6">
         <Button variant="secondary" onClick={() => fileInputRef.current?.click()} title="Upload New Image(s)"><Icon name="upload" />{currentImage ? "Add/Change" : "Upload"}</Button>
         <input ref={fileInputRef} type="file" className="hidden" accept="image/*" multiple onChange={(e) => e.target.files && onUpload(e.target.files)} />
-        <Button variant="primary" onClick={onEnhance} disabled={!canEnhance} title="Enhance Image"><Icon name="enhance" />{isProcessing ? "Processing..." : (hasPendingBatch ? "Start Batch" : "Enhance")}</Button>
+        <Button variant="secondary" onClick={onManifestOpen} title="Queue images with per-file settings from a CSV or JSON manifest"><Icon name="manifest" />Manifest</Button>
+        <Select aria-label="Maximum upload size" value={ingestMaxEdge} onChange={(e) => dispatch({ type: "SET_INGEST_MAX_EDGE", payload: +e.target.value })} className="w-36" title="Larger uploads are downscaled to this longest edge">
+          {INGEST_MAX_EDGE_OPTIONS.map(edge => <option key={edge} value={edge}>Max {edge}px</option>)}
+        </Select>
+        <Button variant="primary" onClick={onEnhance} disabled={!canEnhance} title="Enhance Image"><Icon name="enhance" />{isProcessing ? "Processing..." : (hasPendingBatch ? (batchPaused ? "Resume Batch" : "Start Batch") : "Enhance")}</Button>
+        {isCached && <Button variant="secondary" onClick={onRegenerate} disabled={isProcessing || !ENHANCEMENT_PROVIDERS[activeProvider].isAvailable()} title="The shown result came from the cache. Make a new paid request instead."><Icon name="retry" />Regenerate</Button>}
+        <Select aria-label="Variants per enhancement" value={variantCount} onChange={(e) => dispatch({ type: "SET_VARIANT_COUNT", payload: +e.target.value })} disabled={isProcessing} className="w-32" title="Generate several candidates and pick the best">
+          {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n === 1 ? "1 result" : `${n} variants`}</option>)}
+        </Select>
         <Button variant="secondary" onClick={() => dispatch({ type: "UNDO" })} disabled={historyIndex === 0} title="Undo (Ctrl+Z)" aria-label="Undo"><Icon name="undo" /></Button>
         <Button variant="secondary" onClick={() => dispatch({ type: "REDO" })} disabled={historyIndex === history.length - 1} title="Redo (Ctrl+Shift+Z)" aria-label="Redo"><Icon name="redo" /></Button>
         <Button variant="secondary" onClick={handleCopyPrompt} disabled={!enhancedImage} title="Copy Prompt" aria-label="Copy enhancement prompt"><Icon name="copy" /></Button>
         <div className="relative">
           <Button variant="secondary" onClick={() => setOpen(!open)} disabled={!enhancedImage} title="Download" aria-label="Download enhanced image"><Icon name="download" /></Button>
-          {open && (<div className="absolute top-full mt-2 w-64 bg-card rounded-md shadow-lg z-10 text-left border border-border p-3">
+          {open && (<div className="absolute top-full mt-2 w-72 bg-card rounded-md shadow-lg z-10 text-left border border-border p-3">
+            <div className="flex gap-2 mb-3">
+              <ExportProfileSelect value={exportProfile?.id ?? ""} onChange={setExportProfile} className="h-9 text-sm flex-grow" />
+              <Button variant="ghost" className="h-9 px-2" onClick={() => setProfilesOpen(true)} title="Manage export profiles" aria-label="Manage export profiles"><Icon name="edit" size={16} /></Button>
+            </div>
+            {exportProfile ? <p className="text-xs text-muted-foreground mb-3">{describeExportProfile(exportProfile)}</p> : <>
             <div className="grid grid-cols-2 gap-2 mb-3">
               <Button variant={exportFormat === 'png' ? 'primary': 'secondary'} onClick={() => setExportFormat('png')} className="h-9">PNG</Button>
               <Button variant={exportFormat === 'jpeg' ? 'primary': 'secondary'} onClick={() => setExportFormat('jpeg')} className="h-9">JPEG</Button>
               <Button variant={exportFormat === 'webp' ? 'primary': 'secondary'} onClick={() => setExportFormat('webp')} className="h-9">WebP</Button>
             </div>
             {exportFormat !== 'png' && <div className="mb-3"><Label htmlFor="quality">Quality: {exportQuality}</Label><Slider id="quality" min="1" max="100" value={exportQuality} onChange={e => setExportQuality(+e.target.value)}/></div>}
+            </>}
             <Button variant="primary" className="w-full mb-2" onClick={() => download(exportFormat)}>Download Image</Button>
             <div className="flex gap-2"><Button onClick={() => download("txt")} className="flex-grow">Prompt (.txt)</Button><Button onClick={() => download("json")} className="flex-grow">Recipe (.json)</Button></div>
           </div>)}
         </div>
+        <ExportProfilesModal open={isProfilesOpen} onClose={() => setProfilesOpen(false)} />
         <Button variant="secondary" onClick={() => dispatch({ type: "RESET_STATE" })} disabled={!currentImage} title="Reset All Tools" aria-label="Reset all tools"><Icon name="reset" /></Button>
         <Button variant="secondary" onClick={onLibraryOpen} title="Open Enhanced Library"><Icon name="library" />Library</Button>
+        <Button variant="secondary" onClick={onUsageOpen} title="Usage, cost and budgets"><Icon name="usage" />Usage</Button>
+        <Button variant="secondary" onClick={saveProject} disabled={!currentImage && batchQueue.length === 0} title="Save the workspace as a project file" aria-label="Save project"><Icon name="save" /></Button>
+        <Button variant="secondary" onClick={() => projectInputRef.current?.click()} title="Open a project file" aria-label="Open project"><Icon name="open" /></Button>
+        <input ref={projectInputRef} type="file" className="hidden" accept={`${PROJECT_FILE_EXTENSION},.zip,application/zip`}
+          onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ""; if (file) onProjectOpen(file); }} />
+        <Select aria-label="Enhancement provider" value={activeProvider} onChange={(e) => dispatch({ type: "SET_PROVIDER", payload: e.target.value as ProviderId })} disabled={isProcessing} className="w-44">
+          {Object.values(ENHANCEMENT_PROVIDERS).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </Select>
+        <Select aria-label="Model" value={activeModel} onChange={(e) => dispatch({ type: "SET_MODEL", payload: e.target.value })} disabled={isProcessing || activeProvider === "local"} className="w-56"
+          title={activeProvider === "local" ? "The local provider does not use a model" : "Model for new enhancements; presets and manifests can pin their own"}>
+          {imageModels.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+        </Select>
+        <Button variant="secondary" onClick={onModelsOpen} title="Model registry and model comparison" aria-label="Models"><Icon name="models" /></Button>
       </div>
     </header>
   );
 };
 
+const ExportProfileSelect = ({ value, onChange, className }: { value: string; onChange: (profile: ExportProfile | undefined) => void; className?: string }) => {
+    const { state } = useAppContext();
+    const all = [...BUILT_IN_EXPORT_PROFILES, ...state.exportProfiles];
+    return (
+        <Select aria-label="Export profile" value={value} onChange={e => onChange(all.find(p => p.id === e.target.value))} className={className}>
+            <option value="">Custom (format &amp; quality)</option>
+            <optgroup label="Built-in Profiles">{BUILT_IN_EXPORT_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}</optgroup>
+            {state.exportProfiles.length > 0 && <optgroup label="My Profiles">{state.exportProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}</optgroup>}
+        </Select>
+    );
+};
+
+const ExportProfilesModal = ({ open, onClose }: { open: boolean; onClose: () => void }) => {
+    const { state, dispatch } = useAppContext();
+    const [draft, setDraft] = useState<ExportProfile>({ id: "", name: "", format: "jpeg", quality: 90, fit: "contain", sharpen: 0 });
+    const ids = { name: useId(), width: useId(), height: useId(), dpi: useId(), maxKB: useId(), quality: useId(), sharpen: useId() };
+    const optionalNumber = (value: string) => value.trim() === "" ? undefined : Math.max(1, Math.round(+value) || 1);
+
+    const handleSave = () => {
+        const name = draft.name.trim();
+        if (!name) return;
+        dispatch({ type: "SAVE_EXPORT_PROFILE", payload: { ...draft, id: `profile_${Date.now()}`, name } });
+        dispatch({ type: "SHOW_TOAST", payload: { message: `Export profile "${name}" saved!`, type: "success" } });
+        setDraft({ ...draft, name: "" });
+    };
+
+    return (
+        <Modal open={open} onClose={onClose} title="Export Profiles" className="max-w-lg">
+            <div className="space-y-2 max-h-48 overflow-y-auto pr-2 mb-4">
+                {[...BUILT_IN_EXPORT_PROFILES, ...state.exportProfiles].map(p => (
+                    <div key={p.id} className="flex items-center justify-between gap-2 p-2 rounded-md hover:bg-secondary">
+                        <div className="min-w-0"><p className="text-sm font-medium">{p.name}{p.isBuiltIn && <span className="text-muted-foreground font-normal"> (built-in)</span>}</p><p className="text-xs text-muted-foreground truncate">{describeExportProfile(p)}</p></div>
+                        {!p.isBuiltIn && <Button variant="ghost" className="h-8 px-2" aria-label={`Delete ${p.name}`} onClick={() => dispatch({ type: "DELETE_EXPORT_PROFILE", payload: { id: p.id } })}><Icon name="delete" /></Button>}
+                    </div>
+                ))}
+            </div>
+            <div className="space-y-3 pt-4 border-t border-border">
+                <div><Label htmlFor={ids.name}>New profile name</Label><Input id={ids.name} value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Instagram 1080" /></div>
+                <div className="grid grid-cols-3 gap-2">
+                    {(['png', 'jpeg', 'webp'] as const).map(f => <Button key={f} variant={draft.format === f ? 'primary' : 'secondary'} onClick={() => setDraft({ ...draft, format: f })} className="h-9">{f.toUpperCase()}</Button>)}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <div><Label htmlFor={ids.width}>Width (px)</Label><Input id={ids.width} type="number" min="1" value={draft.width ?? ""} onChange={e => setDraft({ ...draft, width: optionalNumber(e.target.value) })} placeholder="auto" /></div>
+                    <div><Label htmlFor={ids.height}>Height (px)</Label><Input id={ids.height} type="number" min="1" value={draft.height ?? ""} onChange={e => setDraft({ ...draft, height: optionalNumber(e.target.value) })} placeholder="auto" /></div>
+                    <div><Label htmlFor={ids.dpi}>DPI</Label><Input id={ids.dpi} type="number" min="1" value={draft.dpi ?? ""} onChange={e => setDraft({ ...draft, dpi: optionalNumber(e.target.value) })} placeholder="unchanged" /></div>
+                    <div><Label htmlFor={ids.maxKB}>Max size (KB)</Label><Input id={ids.maxKB} type="number" min="1" value={draft.maxKB ?? ""} onChange={e => setDraft({ ...draft, maxKB: optionalNumber(e.target.value) })} placeholder="no limit" disabled={draft.format === "png"} /></div>
+                </div>
+                <Select aria-label="Fit" value={draft.fit} onChange={e => setDraft({ ...draft, fit: e.target.value as ExportProfile["fit"] })} disabled={!draft.width || !draft.height}>
+                    <option value="contain">Fit inside (keep whole image)</option>
+                    <option value="cover">Fill and crop to exact size</option>
+                </Select>
+                {draft.format !== 'png' && <div><Label htmlFor={ids.quality}>Quality: {draft.quality}</Label><Slider id={ids.quality} min="1" max="100" value={draft.quality} onChange={e => setDraft({ ...draft, quality: +e.target.value })} /></div>}
+                <div><Label htmlFor={ids.sharpen}>Output sharpening: {draft.sharpen}</Label><Slider id={ids.sharpen} min="0" max="2" step="0.05" value={draft.sharpen} onChange={e => setDraft({ ...draft, sharpen: +e.target.value })} /></div>
+                <Button variant="primary" className="w-full" onClick={handleSave} disabled={!draft.name.trim()}>Save Profile</Button>
+            </div>
+        </Modal>
+    );
+};
+
+const ExportModal = ({ open, onClose, count, loadItems }: { open: boolean; onClose: () => void; count: number; loadItems: () => Promise<BatchItem[]> }) => {
+    const { dispatch } = useAppContext();
+    const [format, setFormat] = useState<ExportFormat>('png');
+    const [quality, setQuality] = useState(92);
+    const [template, setTemplate] = useState(() => localStorage.getItem(EXPORT_TEMPLATE_STORAGE_KEY) || DEFAULT_EXPORT_TEMPLATE);
+    const [includePrompt, setIncludePrompt] = useState(true);
+    const [includeRecipe, setIncludeRecipe] = useState(true);
+    const [profile, setProfile] = useState<ExportProfile | undefined>();
+    const [progress, setProgress] = useState<number | null>(null);
+    const ids = { template: useId(), prompt: useId(), recipe: useId(), quality: useId() };
+
+    const handleExport = async () => {
+        setProgress(0);
+        try {
+            localStorage.setItem(EXPORT_TEMPLATE_STORAGE_KEY, template);
+            const items = await loadItems();
+            const zip = await exportItemsAsZip(items, { format, quality, template, includePrompt, includeRecipe, profile }, setProgress);
+            downloadBlob(zip, `ai-portrait-export-${new Date().toISOString().slice(0, 10)}.zip`);
+            dispatch({ type: "SHOW_TOAST", payload: { message: `Exported ${items.length} image(s) as ZIP.`, type: "success" } });
+            onClose();
+        } catch (e) {
+            console.error("ZIP export failed", e);
+            dispatch({ type: "SHOW_TOAST", payload: { message: "Could not export ZIP.", type: "error" } });
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    return (
+        <Modal open={open} onClose={onClose} title={`Export ${count} image(s) as ZIP`}>
+            <div className="space-y-4">
+                <ExportProfileSelect value={profile?.id ?? ""} onChange={setProfile} />
+                {profile ? <p className="text-xs text-muted-foreground">{describeExportProfile(profile)}</p> : <>
+                <div className="grid grid-cols-3 gap-2">
+                    {(['png', 'jpeg', 'webp'] as const).map(f => <Button key={f} variant={format === f ? 'primary' : 'secondary'} onClick={() => setFormat(f)} className="h-9">{f.toUpperCase()}</Button>)}
+                </div>
+                {format !== 'png' && <div><Label htmlFor={ids.quality}>Quality: {quality}</Label><Slider id={ids.quality} min="1" max="100" value={quality} onChange={e => setQuality(+e.target.value)} /></div>}
+                </>}
+                <div className="space-y-2">
+                    <Label htmlFor={ids.template}>File name template</Label>
+                    <Input id={ids.template} value={template} onChange={e => setTemplate(e.target.value)} placeholder={DEFAULT_EXPORT_TEMPLATE} />
+                    <p className="text-xs text-muted-foreground">Tokens: {"{name}"} {"{preset}"} {"{date}"} {"{index}"} {"{scale}"}</p>
+                </div>
+                <div className="flex items-center gap-2"><Switch id={ids.prompt} checked={includePrompt} onClick={() => setIncludePrompt(!includePrompt)} /><Label htmlFor={ids.prompt}>Include prompt (.txt)</Label></div>
+                <div className="flex items-center gap-2"><Switch id={ids.recipe} checked={includeRecipe} onClick={() => setIncludeRecipe(!includeRecipe)} /><Label htmlFor={ids.recipe}>Include recipe &amp; provenance (.json)</Label></div>
+                <Button variant="primary" className="w-full" onClick={handleExport} disabled={count === 0 || progress !== null}>
+                    <Icon name="zip" />{progress !== null ? `Exporting ${progress}/${count}...` : "Download ZIP"}
+                </Button>
+            </div>
+        </Modal>
+    );
+};
+
+const ManifestModal = ({ open, onClose, onQueue }: { open: boolean; onClose: () => void; onQueue: (files: File[], settings: Map<File, BatchItemSettings>) => Promise<void> }) => {
+    const { state } = useAppContext();
+    const [manifest, setManifest] = useState<{ rows: ManifestRow[]; errors: string[] } | null>(null);
+    const [files, setFiles] = useState<File[]>([]);
+    const [isQueueing, setQueueing] = useState(false);
+    const ids = { manifest: useId(), images: useId() };
+    const presets = useMemo(() => [...state.userPresets, ...BUILT_IN_PRESETS], [state.userPresets]);
+    const models = useMemo(() => allModels(state.customModels), [state.customModels]);
+    const plan = useMemo(() => manifest && planManifest(manifest.rows, files, presets, state.tools, state.promptTemplates, models), [manifest, files, presets, state.tools, state.promptTemplates, models]);
+    const ready = plan?.matches.filter(match => match.tools) ?? [];
+    const errors = [...(manifest?.errors ?? []), ...(plan?.errors ?? [])];
+
+    const handleManifest = async (file?: File) => {
+        if (file) setManifest(parseManifest(await file.text(), file.name));
+    };
+
+    const handleQueue = async () => {
+        setQueueing(true);
+        try {
+            await onQueue(ready.map(match => match.file), new Map(ready.map(match => [match.file, { preset: match.tools, presetName: match.presetName, promptTemplates: match.promptTemplates, outputName: match.outputName, model: match.model }])));
+            setManifest(null);
+            setFiles([]);
+            onClose();
+        } finally {
+            setQueueing(false);
+        }
+    };
+
+    return (
+        <Modal open={open} onClose={onClose} title="Manifest Batch" className="max-w-2xl">
+            <div className="space-y-4">
+                <p className="text-xs text-muted-foreground">
+                    A CSV or JSON manifest maps each file name or glob (e.g. <code>*_studio.jpg</code>) to a preset, a model, setting overrides such as <code>background.solidColor</code> and an output name.
+                </p>
+                <div className="grid sm:grid-cols-2 gap-3">
+                    <div className="space-y-1"><Label htmlFor={ids.manifest}>Manifest (.csv or .json)</Label><Input id={ids.manifest} type="file" accept=".csv,.json,text/csv,application/json" onChange={e => handleManifest(e.target.files?.[0])} /></div>
+                    <div className="space-y-1"><Label htmlFor={ids.images}>Images</Label><Input id={ids.images} type="file" accept="image/*" multiple onChange={e => setFiles(Array.from(e.target.files ?? []))} /></div>
+                </div>
+                {errors.length > 0 && (
+                    <div className="rounded-md border border-destructive/40 p-2 text-xs text-destructive max-h-32 overflow-y-auto">
+                        <p className="font-medium mb-1">{errors.length} error(s)</p>
+                        <ul className="list-disc pl-4 space-y-0.5">{errors.map((e, i) => <li key={i}>{e}</li>)}</ul>
+                    </div>
+                )}
+                {plan && plan.warnings.length > 0 && (
+                    <div className="rounded-md border border-amber-300 bg-amber-50 p-2 text-xs text-amber-800 max-h-32 overflow-y-auto">
+                        <ul className="list-disc pl-4 space-y-0.5">{plan.warnings.map((w, i) => <li key={i}>{w}</li>)}</ul>
+                    </div>
+                )}
+                {plan && files.length > 0 && (
+                    <ul className="max-h-56 overflow-y-auto rounded-md border border-border divide-y divide-border text-sm">
+                        {plan.matches.map((match, i) => (
+                            <li key={i} className="flex items-center justify-between gap-3 px-2 py-1.5">
+                                <span className="truncate font-medium">{match.file.name}</span>
+                                <span className={cn("text-xs truncate", match.problem ? "text-destructive" : "text-muted-foreground")} title={match.row && Object.entries(match.row.overrides).map(([k, v]) => `${k} = ${v}`).join("\n")}>
+                                    {match.problem ?? `${match.row!.label}: ${describeManifestMatch(match, models)}`}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <Button variant="primary" className="w-full" onClick={handleQueue} disabled={ready.length === 0 || isQueueing}>
+                    <Icon name="manifest" />{isQueueing ? "Adding..." : `Add ${ready.length} of ${files.length} image(s) to queue`}
+                </Button>
+            </div>
+        </Modal>
+    );
+};
+
 const BatchQueue = () => {
     const { state, dispatch } = useAppContext();
-    const { batchQueue, userPresets, showBuiltInPresets, currentImage } = state;
+    const { batchQueue, batchPaused, batchConcurrency, userPresets, showBuiltInPresets, currentImage } = state;
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [isExportOpen, setExportOpen] = useState(false);
+    const models = useMemo(() => allModels(state.customModels), [state.customModels]);
     const availablePresets = useMemo(() => [
-        { id: 'current', name: 'Current Tool Settings', tools: state.tools },
+        { id: 'current', name: 'Current Tool Settings', tools: state.tools, promptTemplates: state.promptTemplates },
         ...userPresets,
         ...(showBuiltInPresets ? BUILT_IN_PRESETS : [])
-    ], [userPresets, showBuiltInPresets, state.tools]);
+    ], [userPresets, showBuiltInPresets, state.tools, state.promptTemplates]);
 
     if(batchQueue.length === 0) return null;
 
+    const failedItems = batchQueue.filter(item => item.status === 'error');
+    const failedCount = failedItems.length;
+    const failureTitles = failedItems.map(item => item.failure?.title ?? ERROR_KINDS.unknown.title);
+    const failureSummary = [...new Set(failureTitles)].map(title => `${failureTitles.filter(t => t === title).length} × ${title}`).join("\n");
+    const doneItems = batchQueue.filter(item => item.status === 'done');
+    const selectedDone = doneItems.filter(item => selected.has(item.id));
+    const exportItems = selectedDone.length > 0 ? selectedDone : doneItems;
+
+    const toggleSelected = (id: string) => setSelected(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+
     const handleApplyPreset = (e: ChangeEvent<HTMLSelectElement>) => {
         const id = e.target.value;
         const preset = availablePresets.find(p => p.id === id);
-        if(preset) dispatch({ type: 'APPLY_PRESET_TO_BATCH', payload: { tools: preset.tools }});
+        if(preset) dispatch({ type: 'APPLY_PRESET_TO_BATCH', payload: { tools: preset.tools, promptTemplates: preset.promptTemplates ?? {}, name: preset.id === 'current' ? undefined : preset.name, model: 'model' in preset ? preset.model : undefined }});
     };
     
     const StatusBadge = ({status}: {status: BatchItem['status']}) => {
-        const colors = { pending: 'bg-gray-200 text-gray-800', processing: 'bg-blue-200 text-blue-800 animate-pulse', done: 'bg-green-200 text-green-800', error: 'bg-red-200 text-red-800', cancelled: 'bg-yellow-200 text-yellow-800'};
+        const colors = { pending: 'bg-gray-200 text-gray-800', processing: 'bg-blue-200 text-blue-800 animate-pulse', retrying: 'bg-orange-200 text-orange-800', done: 'bg-green-200 text-green-800', error: 'bg-red-200 text-red-800', cancelled: 'bg-yellow-200 text-yellow-800'};
         return <span className={`px-2 py-1 text-xs font-medium rounded-full ${colors[status]}`}>{status}</span>
     }
 
@@ -775,9 +4425,13 @@ const BatchQueue = () => {
             <div className="container mx-auto px-4 sm:px-6 lg:px-8">
                 <Card className="bg-white/80 backdrop-blur-sm border-t-2 shadow-2xl max-h-[40vh] flex flex-col">
                     <header className="p-3 border-b flex flex-wrap items-center justify-between gap-3">
-                        <h3 className="font-semibold text-lg">Batch Queue ({batchQueue.length})</h3>
-                        <div className="flex items-center gap-2">
+                        <h3 className="font-semibold text-lg">Batch Queue ({batchQueue.length}){batchPaused && <span className="ml-2 text-sm font-normal text-muted-foreground">Paused</span>}</h3>
+                        <div className="flex flex-wrap items-center gap-2">
+                           <Button onClick={() => dispatch({ type: 'SET_BATCH_PAUSED', payload: !batchPaused })} className="h-9 text-xs" aria-label={batchPaused ? "Resume queue" : "Pause queue"}><Icon name={batchPaused ? "play" : "pause"} size={16} />{batchPaused ? "Resume" : "Pause"}</Button>
+                           {failedCount > 0 && <Button onClick={() => dispatch({ type: 'RETRY_FAILED_BATCH' })} className="h-9 text-xs" title={failureSummary}><Icon name="retry" size={16} />Retry failed ({failedCount})</Button>}
+                           <Select aria-label="Concurrent requests" value={batchConcurrency} onChange={e => dispatch({ type: 'SET_BATCH_CONCURRENCY', payload: +e.target.value })} className="h-9 text-xs w-28">{Array.from({ length: BATCH_MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n} at a time</option>)}</Select>
                            <Select onChange={handleApplyPreset} className="h-9 text-xs w-48"><option>Apply Preset to All...</option>{availablePresets.map(p=><option key={p.id} value={p.id}>{p.name}</option>)}</Select>
+                           <Button onClick={() => setExportOpen(true)} disabled={exportItems.length === 0} className="h-9 text-xs"><Icon name="zip" size={16} />Export ZIP ({exportItems.length})</Button>
                            <Button onClick={()=>dispatch({type: 'CLEAR_BATCH'})} variant="destructive" className="h-9 text-xs">Clear</Button>
                         </div>
                     </header>
@@ -785,68 +4439,327 @@ const BatchQueue = () => {
                         {batchQueue.map(item => (
                             <div key={item.id} className={cn("flex items-center gap-3 p-2 bg-secondary/50 rounded-md transition-all cursor-pointer hover:bg-secondary", currentImage?.data === item.file.data && "ring-2 ring-primary")}
                                  onClick={() => dispatch({type: 'SELECT_BATCH_ITEM', payload: item })}>
+                                <input type="checkbox" aria-label={`Select ${item.file.name} for export`} disabled={item.status !== 'done'} checked={selected.has(item.id)} onClick={e => e.stopPropagation()} onChange={() => toggleSelected(item.id)} className="h-4 w-4 accent-primary" />
                                 <img src={item.result || item.file.data} className="w-12 h-12 object-cover rounded-md" />
-                                <div className="flex-grow overflow-hidden"><p className="text-sm font-medium truncate">{item.file.name}</p><p className="text-xs text-muted-foreground truncate">{item.error || ''}</p></div>
+                                <div className="flex-grow overflow-hidden"><p className="text-sm font-medium truncate">{item.file.name}</p><p className={cn("text-xs truncate", item.status === 'error' ? "text-destructive" : "text-muted-foreground")}
+                                    title={item.failure && [item.failure.explanation, item.failure.fix, item.failure.detail].filter(Boolean).join("\n")}>{item.status === 'error' && item.failure ? `${item.failure.title}: ${item.failure.fix || item.failure.explanation}` : item.error || (item.status === 'processing' && item.progress ? `Upscaling tile ${item.progress.done}/${item.progress.total}` : [item.presetName, item.model && modelLabel(item.model, models), item.outputName && `→ ${item.outputName}`].filter(Boolean).join(" · "))}</p></div>
                                 <div className="flex items-center gap-2 flex-shrink-0">
+                                  <QualityWarningBadge metrics={item.metrics} />
+                                  {item.status === 'done' && item.cached && <CachedBadge />}
                                   <StatusBadge status={item.status} />
+                                  {item.status === 'done' && item.cached && <Button variant="ghost" className="h-8 px-2" aria-label="Regenerate without cache" title="Regenerate: make a new paid request instead of using the cached result"
+                                      onClick={(e) => { e.stopPropagation(); dispatch({ type: 'UPDATE_BATCH_ITEM', payload: { id: item.id, status: 'pending', refreshCache: true, result: undefined, metrics: undefined, error: undefined, attempts: 0 } }); }}><Icon name="retry" /></Button>}
                                   {item.status === 'done' && <Button variant="ghost" className="h-8 px-2" aria-label="View result" onClick={(e) => { e.stopPropagation(); dispatch({type: 'SET_ENHANCED_IMAGE', payload: item.result!})}}><Icon name="view" /></Button>}
-                                  {(item.status === 'pending' || item.status === 'processing') && <Button variant="ghost" className="h-8 px-2" aria-label="Cancel processing" onClick={(e) => { e.stopPropagation(); dispatch({type: 'UPDATE_BATCH_ITEM', payload: {id: item.id, status: 'cancelled'}})}}><Icon name="close" /></Button>}
+                                  {(item.status === 'pending' || item.status === 'processing' || item.status === 'retrying') && <Button variant="ghost" className="h-8 px-2" aria-label="Cancel processing" onClick={(e) => { e.stopPropagation(); dispatch({type: 'UPDATE_BATCH_ITEM', payload: {id: item.id, status: 'cancelled'}})}}><Icon name="close" /></Button>}
                                 </div>
                             </div>
                         ))}
                     </div>
                 </Card>
             </div>
+            <ExportModal open={isExportOpen} onClose={() => setExportOpen(false)} count={exportItems.length} loadItems={async () => exportItems} />
+        </div>
+    );
+};
+
+const ModelsModal = ({ open, onClose, onCompare }: { open: boolean; onClose: () => void; onCompare: (models: ModelName[]) => void }) => {
+    const { state, dispatch } = useAppContext();
+    const { customModels, currentImage, activeProvider, isLoading } = state;
+    const models = useMemo(() => allModels(customModels), [customModels]);
+    const ids = { id: useId(), label: useId(), maxInput: useId(), input: useId(), output: useId(), image: useId(), multi: useId() };
+    const emptyDraft = { id: "", label: "", maxInputMb: 20, inputPerMillion: 0, outputPerMillion: 0, imageOutput: true, multiImageInput: true };
+    const [draft, setDraft] = useState(emptyDraft);
+    const [compare, setCompare] = useState<Set<ModelName>>(new Set());
+    const chosen = models.filter(m => m.imageOutput && compare.has(m.id)).map(m => m.id);
+
+    const handleAdd = () => {
+        const { model, errors } = validateModel({ ...draft, maxInputBytes: draft.maxInputMb * 1024 * 1024,
+            pricing: { inputPerMillion: draft.inputPerMillion, outputPerMillion: draft.outputPerMillion } });
+        if (!model) return dispatch({ type: "SHOW_TOAST", payload: { message: errors.join("; "), type: "error" } });
+        dispatch({ type: "SAVE_MODEL", payload: model });
+        dispatch({ type: "SHOW_TOAST", payload: { message: `Saved model "${model.label}".`, type: "success" } });
+        setDraft(emptyDraft);
+    };
+    const toggleCompare = (id: ModelName) => setCompare(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+    const compareBlocker = !currentImage ? "Open an image first." : activeProvider !== "gemini" ? "Switch to the Gemini provider to compare models." : chosen.length < 2 ? "Pick two or more models." : null;
+
+    return (
+        <Modal open={open} onClose={onClose} title="Models" className="max-w-3xl">
+            <div className="space-y-4 max-h-[75vh] overflow-y-auto pr-1">
+                <table className="w-full text-sm">
+                    <thead><tr className="text-left text-xs text-muted-foreground"><th className="font-medium">Compare</th><th className="font-medium">Model</th><th className="font-medium">Input</th><th className="font-medium text-right">USD / 1M tokens</th><th /></tr></thead>
+                    <tbody>{models.map(m => (
+                        <tr key={m.id} className="border-t border-border">
+                            <td className="py-1"><input type="checkbox" aria-label={`Compare ${m.label}`} disabled={!m.imageOutput} checked={compare.has(m.id)} onChange={() => toggleCompare(m.id)} className="h-4 w-4 accent-primary" /></td>
+                            <td className="py-1"><p className="font-medium">{m.label}</p><p className="font-mono text-xs text-muted-foreground">{m.id}</p></td>
+                            <td className="py-1 text-xs">{[m.imageOutput ? "Image output" : "No image output", m.multiImageInput ? "multi-image" : "single image", `≤ ${formatBytes(m.maxInputBytes)}`].join(" · ")}</td>
+                            <td className="py-1 text-xs text-right">{m.pricing.inputPerMillion} in / {m.pricing.outputPerMillion} out</td>
+                            <td className="py-1 text-right">{!m.isBuiltIn && <Button variant="ghost" className="h-8 px-2" aria-label={`Delete ${m.label}`} onClick={() => { if (confirm(`Delete "${m.label}"? Presets pinned to it will stop working.`)) dispatch({ type: "DELETE_MODEL", payload: { id: m.id } }); }}><Icon name="delete" /></Button>}</td>
+                        </tr>
+                    ))}</tbody>
+                </table>
+                <div className="flex flex-wrap items-center gap-3">
+                    <Button variant="primary" onClick={() => { onCompare(chosen); onClose(); }} disabled={!!compareBlocker || isLoading} className="h-9 text-xs">Compare {chosen.length} model(s) on this image</Button>
+                    <span className="text-xs text-muted-foreground">{compareBlocker ?? "Each model gets the same image and settings; results open side by side."}</span>
+                </div>
+                <div className="pt-4 border-t border-border">
+                    <h4 className="text-sm font-semibold mb-2">Add a model</h4>
+                    <div className="grid sm:grid-cols-2 gap-3">
+                        <div className="space-y-1"><Label htmlFor={ids.id}>Model id</Label><Input id={ids.id} value={draft.id} onChange={e => setDraft({ ...draft, id: e.target.value })} placeholder="e.g. gemini-3-flash-image" /></div>
+                        <div className="space-y-1"><Label htmlFor={ids.label}>Label</Label><Input id={ids.label} value={draft.label} onChange={e => setDraft({ ...draft, label: e.target.value })} placeholder="Defaults to the id" /></div>
+                        <div className="space-y-1"><Label htmlFor={ids.maxInput}>Max image data per request (MB)</Label><Input id={ids.maxInput} type="number" min="1" value={draft.maxInputMb} onChange={e => setDraft({ ...draft, maxInputMb: Math.max(0, +e.target.value || 0) })} /></div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div className="space-y-1"><Label htmlFor={ids.input}>Input price</Label><Input id={ids.input} type="number" min="0" step="0.01" value={draft.inputPerMillion} onChange={e => setDraft({ ...draft, inputPerMillion: Math.max(0, +e.target.value || 0) })} /></div>
+                            <div className="space-y-1"><Label htmlFor={ids.output}>Output price</Label><Input id={ids.output} type="number" min="0" step="0.01" value={draft.outputPerMillion} onChange={e => setDraft({ ...draft, outputPerMillion: Math.max(0, +e.target.value || 0) })} /></div>
+                        </div>
+                        <div className="flex items-center gap-2"><Switch id={ids.image} checked={draft.imageOutput} onClick={() => setDraft({ ...draft, imageOutput: !draft.imageOutput })} /><Label htmlFor={ids.image}>Returns images</Label></div>
+                        <div className="flex items-center gap-2"><Switch id={ids.multi} checked={draft.multiImageInput} onClick={() => setDraft({ ...draft, multiImageInput: !draft.multiImageInput })} /><Label htmlFor={ids.multi}>Accepts several images (masks, refinements)</Label></div>
+                    </div>
+                    <Button onClick={handleAdd} disabled={!draft.id.trim()} className="h-9 text-xs mt-3">Save model</Button>
+                    <p className="text-xs text-muted-foreground mt-1">Saving an existing custom id updates it. Its prices are copied to the price table under Usage.</p>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+const UsageModal = ({ open, onClose }: { open: boolean; onClose: () => void }) => {
+    const { state, dispatch } = useAppContext();
+    const { usageLog, priceTable, usageBudgets, usageClient, batchQueue } = state;
+    const usage = useUsageLog();
+    const ids = { client: useId(), session: useId(), batch: useId(), cache: useId(), cacheSize: useId() };
+    const [cacheStats, setCacheStats] = useState<{ count: number; bytes: number } | null>(null);
+    const refreshCacheStats = useCallback(() => { resultCacheStore.stats().then(setCacheStats).catch(() => setCacheStats(null)); }, []);
+    useEffect(() => { if (open) refreshCacheStats(); }, [open, usageLog, refreshCacheStats]);
+
+    const setCacheSettings = async (settings: ResultCacheSettings) => {
+        dispatch({ type: "SET_RESULT_CACHE", payload: settings });
+        if (settings.maxBytes < state.resultCache.maxBytes) await resultCacheStore.prune(settings.maxBytes).catch(e => console.error("Could not prune result cache", e));
+        refreshCacheStats();
+    };
+    const handleClearCache = async () => {
+        if (!confirm("Delete all cached results? Identical requests will be paid for again.")) return;
+        try { await resultCacheStore.clear(); }
+        catch (e) { dispatch(storageErrorToast(e, "Could not clear the result cache.")); }
+        refreshCacheStats();
+    };
+    const breakdown = useMemo(() => usageBreakdown(usageLog), [usageLog]);
+    const recent = useMemo(() => usageLog.slice(-USAGE_RECENT_LIMIT).reverse(), [usageLog]);
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    const setBudget = (key: keyof UsageBudgets, value: string) =>
+        dispatch({ type: "SET_USAGE_BUDGETS", payload: { ...usageBudgets, [key]: value === "" || !(+value > 0) ? undefined : +value } });
+    const setPrice = (model: string, key: "inputPerMillion" | "outputPerMillion", value: string) =>
+        dispatch({ type: "SET_PRICE_TABLE", payload: { ...priceTable, [model]: { ...priceTable[model], [key]: Math.max(0, +value || 0) } } });
+    const handleClear = async () => {
+        if (!confirm(`Delete all ${usageLog.length} usage record(s)? Export them first if you need them for billing.`)) return;
+        try { await usage.clear(); }
+        catch (e) { dispatch(storageErrorToast(e, "Could not clear the usage log.")); }
+    };
+
+    const spendLine = (label: string, spent: number, budget?: number) => (
+        <div className="rounded-md border border-border p-2">
+            <p className="text-xs text-muted-foreground">{label}</p>
+            <p className={cn("font-semibold", budget !== undefined && spent >= budget && "text-destructive")}>{formatUsd(spent)}{budget !== undefined && <span className="text-xs font-normal text-muted-foreground"> of {formatUsd(budget)}</span>}</p>
         </div>
     );
+
+    return (
+        <Modal open={open} onClose={onClose} title="Usage, Cost & Cache" className="max-w-3xl">
+            <div className="space-y-4 max-h-[75vh] overflow-y-auto pr-1">
+                <div className="grid grid-cols-3 gap-2">
+                    {spendLine("This session", sessionSpend(usageLog), usageBudgets.session)}
+                    {spendLine("Current batch", batchSpend(usageLog, batchQueue), usageBudgets.batch)}
+                    {spendLine(`All time (${usageLog.length} calls)`, sumCost(usageLog))}
+                </div>
+                <div className="grid sm:grid-cols-3 gap-3">
+                    <div className="space-y-1"><Label htmlFor={ids.client}>Client / job</Label><Input id={ids.client} value={usageClient} onChange={e => dispatch({ type: "SET_USAGE_CLIENT", payload: e.target.value })} placeholder="Tag for new calls" /></div>
+                    <div className="space-y-1"><Label htmlFor={ids.session}>Session budget (USD)</Label><Input id={ids.session} type="number" min="0" step="0.01" value={usageBudgets.session ?? ""} onChange={e => setBudget("session", e.target.value)} placeholder="No limit" /></div>
+                    <div className="space-y-1"><Label htmlFor={ids.batch}>Batch budget (USD)</Label><Input id={ids.batch} type="number" min="0" step="0.01" value={usageBudgets.batch ?? ""} onChange={e => setBudget("batch", e.target.value)} placeholder="No limit" /></div>
+                </div>
+                <div>
+                    <h4 className="text-sm font-semibold mb-2">Prices (USD per million tokens)</h4>
+                    {(Object.entries(priceTable) as [string, PriceTable[string]][]).map(([model, price]) => (
+                        <div key={model} className="grid grid-cols-[1fr_8rem_8rem] items-center gap-2 text-sm">
+                            <span className="truncate font-mono text-xs">{model}</span>
+                            <Input type="number" min="0" step="0.01" aria-label={`${model} input price`} title="Input" value={price.inputPerMillion} onChange={e => setPrice(model, "inputPerMillion", e.target.value)} />
+                            <Input type="number" min="0" step="0.01" aria-label={`${model} output price`} title="Output" value={price.outputPerMillion} onChange={e => setPrice(model, "outputPerMillion", e.target.value)} />
+                        </div>
+                    ))}
+                    <p className="text-xs text-muted-foreground mt-1">New prices apply to later calls; logged costs are kept as recorded.</p>
+                </div>
+                <div>
+                    <h4 className="text-sm font-semibold mb-2">Result cache</h4>
+                    <div className="flex flex-wrap items-center gap-3 text-sm">
+                        <div className="flex items-center gap-2"><Switch id={ids.cache} checked={state.resultCache.enabled} onClick={() => setCacheSettings({ ...state.resultCache, enabled: !state.resultCache.enabled })} /><Label htmlFor={ids.cache}>Reuse results of identical requests</Label></div>
+                        <Select id={ids.cacheSize} aria-label="Result cache size limit" value={state.resultCache.maxBytes} onChange={e => setCacheSettings({ ...state.resultCache, maxBytes: +e.target.value })} className="h-9 text-xs w-32">
+                            {RESULT_CACHE_SIZE_OPTIONS.map(bytes => <option key={bytes} value={bytes}>Up to {formatBytes(bytes)}</option>)}
+                        </Select>
+                        <span className="text-xs text-muted-foreground">{cacheStats ? `${cacheStats.count} result(s), ${formatBytes(cacheStats.bytes)}` : "Size unavailable"}</span>
+                        <Button onClick={handleClearCache} disabled={!cacheStats?.count} className="h-9 text-xs ml-auto">Clear cache</Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">Keyed on the image, the compiled prompt and the model. The least recently used results are dropped when the limit is reached.</p>
+                </div>
+                <div>
+                    <h4 className="text-sm font-semibold mb-2">By month and client</h4>
+                    {breakdown.length === 0 ? <p className="text-sm text-muted-foreground">No calls recorded yet.</p> : (
+                        <table className="w-full text-sm">
+                            <thead><tr className="text-left text-xs text-muted-foreground"><th className="font-medium">Month</th><th className="font-medium">Client</th><th className="font-medium text-right">Calls</th><th className="font-medium text-right">Tokens</th><th className="font-medium text-right">Cost</th></tr></thead>
+                            <tbody>{breakdown.map(row => (
+                                <tr key={`${row.month}-${row.client}`} className="border-t border-border">
+                                    <td className="py-1">{row.month}</td><td className="py-1">{row.client || <span className="text-muted-foreground">untagged</span>}</td>
+                                    <td className="py-1 text-right">{row.calls}</td><td className="py-1 text-right">{row.tokens.toLocaleString()}</td>
+                                    <td className="py-1 text-right" title={row.unpriced > 0 ? `${row.unpriced} call(s) had no price` : undefined}>{formatUsd(row.cost)}{row.unpriced > 0 && "*"}</td>
+                                </tr>
+                            ))}</tbody>
+                        </table>
+                    )}
+                </div>
+                {recent.length > 0 && (
+                    <div>
+                        <h4 className="text-sm font-semibold mb-2">Recent calls</h4>
+                        <ul className="max-h-48 overflow-y-auto rounded-md border border-border divide-y divide-border text-xs">
+                            {recent.map(r => (
+                                <li key={r.id} className="flex items-center gap-3 px-2 py-1" title={r.error}>
+                                    <span className="text-muted-foreground w-32 flex-shrink-0">{new Date(r.at).toLocaleString()}</span>
+                                    <span className="truncate flex-grow">{r.imageName} · {r.kind}{r.client && ` · ${r.client}`}</span>
+                                    <span className={cn(r.outcome !== "success" && "text-destructive")}>{r.outcome === "error" && r.errorKind ? r.errorKind : r.outcome}</span>
+                                    <span className="w-20 text-right">{r.usage ? `${r.usage.totalTokens.toLocaleString()} tok` : "—"}</span>
+                                    <span className="w-16 text-right">{r.cost === undefined ? "—" : formatUsd(r.cost)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                <div className="flex flex-wrap gap-2">
+                    <Button onClick={() => downloadFile(usageToCsv(usageLog), `ai-portrait-usage-${stamp}.csv`, "text/csv")} disabled={usageLog.length === 0} className="h-9 text-xs"><Icon name="download" size={16} />CSV</Button>
+                    <Button onClick={() => downloadFile(usageToJsonl(usageLog), `ai-portrait-usage-${stamp}.jsonl`, "application/x-ndjson")} disabled={usageLog.length === 0} className="h-9 text-xs"><Icon name="download" size={16} />JSONL</Button>
+                    <Button variant="destructive" onClick={handleClear} disabled={usageLog.length === 0} className="h-9 text-xs ml-auto">Clear log</Button>
+                </div>
+            </div>
+        </Modal>
+    );
 };
 
 const LibraryModal = ({ open, onClose }: { open: boolean, onClose: () => void }) => {
     const { state, dispatch } = useAppContext();
     const { enhancedLibrary } = state;
+    const library = useLibrary();
+    const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+    const [keepNewest, setKeepNewest] = useState(50);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [isExportOpen, setExportOpen] = useState(false);
 
-    const handleSelect = (item: BatchItem) => {
-        dispatch({ type: 'SELECT_BATCH_ITEM', payload: item });
-        onClose();
+    useEffect(() => {
+        if (open) libraryStore.estimate().then(setUsage).catch(() => setUsage(null));
+    }, [open, enhancedLibrary]);
+
+    const handleSelect = async (entry: LibraryEntry) => {
+        try {
+            dispatch({ type: 'SELECT_BATCH_ITEM', payload: await libraryStore.load(entry) });
+            onClose();
+        } catch (e) {
+            dispatch({ type: "SHOW_TOAST", payload: { message: e instanceof Error ? e.message : "Could not open library item.", type: "error" } });
+        }
     };
 
-    const handleDelete = (e: React.MouseEvent, id: string) => {
+    const handleDelete = async (e: React.MouseEvent, id: string) => {
         e.stopPropagation();
-        dispatch({ type: 'REMOVE_FROM_LIBRARY', payload: { id } });
+        try { await library.remove([id]); }
+        catch (err) { dispatch(storageErrorToast(err, "Could not delete the library item.")); }
     };
 
-    const handleClear = () => {
+    const handleClear = async () => {
         if (confirm('Are you sure you want to clear the entire library? This cannot be undone.')) {
-            dispatch({ type: 'CLEAR_LIBRARY' });
+            try { await library.clear(); }
+            catch (e) { dispatch(storageErrorToast(e, "Could not clear the library.")); }
+        }
+    };
+
+    const handlePrune = async () => {
+        const stale = enhancedLibrary.slice(keepNewest);
+        if (stale.length === 0) return;
+        if (confirm(`Remove the ${stale.length} oldest item(s) from the library?`)) {
+            try { await library.remove(stale.map(entry => entry.id)); }
+            catch (e) { dispatch(storageErrorToast(e, "Could not prune the library.")); }
         }
     };
 
+    const libraryBytes = enhancedLibrary.reduce((sum, entry) => sum + entry.bytes, 0);
+    const groups = useMemo(() => {
+        const bySource = new Map<string, LibraryEntry[]>();
+        enhancedLibrary.forEach(entry => bySource.set(entrySourceKey(entry), [...(bySource.get(entrySourceKey(entry)) ?? []), entry]));
+        return [...bySource.entries()].map(([key, entries]) => ({ key, name: entries[0].name, versions: orderVersions(entries) }));
+    }, [enhancedLibrary]);
+    const selectedEntries = enhancedLibrary.filter(entry => selected.has(entry.id));
+
+    const toggleSelected = (e: React.SyntheticEvent, id: string) => {
+        e.stopPropagation();
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id); else next.add(id);
+            return next;
+        });
+    };
+
     return (
         <Modal open={open} onClose={onClose} title={`Enhanced Library (${enhancedLibrary.length})`}>
             <div className="flex flex-col h-full">
                 {enhancedLibrary.length > 0 && (
-                    <div className="flex justify-end mb-4 border-b pb-4">
-                        <Button variant="destructive" onClick={handleClear}>Clear All</Button>
+                    <div className="mb-4 border-b pb-4 space-y-3">
+                        <p className="text-xs text-muted-foreground">
+                            Library: {formatBytes(libraryBytes)}{usage && usage.quota > 0 && <> · Browser storage: {formatBytes(usage.usage)} of {formatBytes(usage.quota)} ({Math.round(usage.usage / usage.quota * 100)}%)</>}
+                        </p>
+                        <div className="flex items-center gap-2">
+                            <Select aria-label="Entries to keep" value={keepNewest} onChange={e => setKeepNewest(+e.target.value)} className="h-9 text-xs">
+                                {[100, 50, 20, 10].map(n => <option key={n} value={n}>Keep newest {n}</option>)}
+                            </Select>
+                            <Button onClick={handlePrune} disabled={enhancedLibrary.length <= keepNewest} className="h-9 text-xs">Prune</Button>
+                            <Button variant="destructive" onClick={handleClear} className="h-9 text-xs">Clear All</Button>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Button onClick={() => setSelected(selectedEntries.length === enhancedLibrary.length ? new Set() : new Set(enhancedLibrary.map(entry => entry.id)))} className="h-9 text-xs">
+                                {selectedEntries.length === enhancedLibrary.length ? "Select None" : "Select All"}
+                            </Button>
+                            <Button onClick={() => setExportOpen(true)} disabled={selectedEntries.length === 0} className="h-9 text-xs flex-grow"><Icon name="zip" size={16} />Export ZIP ({selectedEntries.length})</Button>
+                        </div>
                     </div>
                 )}
                 {enhancedLibrary.length === 0 ? (
                     <p className="text-center text-muted-foreground py-8">Your enhanced images will appear here.</p>
                 ) : (
-                    <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 max-h-[60vh] overflow-y-auto pr-2 -mr-2">
-                        {enhancedLibrary.map(item => item.result ? (
+                    <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2 -mr-2">
+                      {groups.map(group => (
+                        <section key={group.key}>
+                          <h4 className="text-sm font-medium mb-2 truncate">{group.name} <span className="text-muted-foreground font-normal">({group.versions.length} version{group.versions.length === 1 ? "" : "s"})</span></h4>
+                          <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+                        {group.versions.map(({ entry: item, number }) => (
                             <div key={item.id} className="relative group cursor-pointer aspect-square" onClick={() => handleSelect(item)}>
-                                <img src={item.result} alt={item.file.name} className="w-full h-full object-cover rounded-md bg-secondary" />
+                                <span className="absolute bottom-1 left-1 z-10 px-1.5 text-xs font-medium rounded bg-black/60 text-white">v{number}</span>
+                                <QualityWarningBadge metrics={item.metrics} className="absolute bottom-1 right-1 z-10" />
+                                {item.cached && <CachedBadge className="absolute top-1 right-8 z-10" />}
+                                <img src={item.thumbnail} alt={item.name} loading="lazy" className="w-full h-full object-cover rounded-md bg-secondary" />
                                 <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col items-center justify-center p-1">
-                                    <p className="text-white text-xs text-center font-medium line-clamp-2">{item.file.name}</p>
+                                    <p className="text-white text-xs text-center font-medium line-clamp-2">{item.name}</p>
                                 </div>
+                                <input type="checkbox" aria-label={`Select ${item.name} for export`} checked={selected.has(item.id)} onClick={e => e.stopPropagation()} onChange={e => toggleSelected(e, item.id)}
+                                    className={cn("absolute top-1 left-1 h-4 w-4 accent-primary z-10 transition-opacity", selected.has(item.id) ? "opacity-100" : "opacity-0 group-hover:opacity-100")} />
                                 <Button variant="destructive" className="absolute top-1 right-1 h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity z-10" onClick={(e) => handleDelete(e, item.id)}>
                                     <Icon name="delete" size={14}/>
                                 </Button>
                             </div>
-                        ): null)}
+                        ))}
+                          </div>
+                        </section>
+                      ))}
                     </div>
                 )}
             </div>
+            <ExportModal open={isExportOpen} onClose={() => setExportOpen(false)} count={selectedEntries.length} loadItems={() => Promise.all(selectedEntries.map(entry => libraryStore.load(entry)))} />
         </Modal>
     );
 };
@@ -865,9 +4778,18 @@ const Toast = () => {
 
 const App = () => {
   const { state, dispatch } = useAppContext();
-  const { currentImage, tools, activeModel, batchQueue, enhancedLibrary } = state;
+  const { currentImage, enhancedImage, enhancedBase, mask, tools, promptTemplates, activeModel, activeProvider, batchQueue, batchPaused, batchConcurrency, activeItemId, refinement, currentPrompt, enhancedLibrary, variantCount, candidates, ingestMaxEdge, resultCache, customModels } = state;
+  const batchControllers = useRef(new Map<string, AbortController>());
+  const library = useLibrary();
+  const usage = useUsageLog();
+  const knownModels = useMemo(() => allModels(customModels), [customModels]);
   const [isDragging, setIsDragging] = useState(false);
   const [isLibraryOpen, setLibraryOpen] = useState(false);
+  const [isManifestOpen, setManifestOpen] = useState(false);
+  const [isUsageOpen, setUsageOpen] = useState(false);
+  const [isModelsOpen, setModelsOpen] = useState(false);
+  // Session autosave waits for the restore attempt so an empty start-up state never overwrites the saved session.
+  const [isSessionRestored, setSessionRestored] = useState(false);
 
   useEffect(() => {
     if (!(window as any).React?.version?.startsWith("19.")) {
@@ -880,41 +4802,183 @@ const App = () => {
   useEffect(() => {
       try {
         const storedPresets = localStorage.getItem('ai-portrait-presets');
-        if (storedPresets) dispatch({ type: 'IMPORT_PRESETS', payload: { presets: JSON.parse(storedPresets) } });
-        const storedLibrary = localStorage.getItem('ai-portrait-library');
-        if (storedLibrary) dispatch({ type: 'LOAD_LIBRARY', payload: { library: JSON.parse(storedLibrary) } });
+        if (storedPresets) {
+          let stored: PresetImport;
+          try { stored = parsePresetFile(JSON.parse(storedPresets)); } catch { stored = { presets: [], errors: ["Stored presets are not valid JSON"] }; }
+          // The save effect rewrites the list without the presets that failed, so keep the original where it can be recovered.
+          if (stored.errors.length > 0) {
+            localStorage.setItem(PRESETS_BACKUP_STORAGE_KEY, storedPresets);
+            console.warn("Dropped invalid stored presets:", stored.errors);
+            dispatch({ type: "SHOW_TOAST", payload: { message: `Some saved presets could not be read and were left out. The original list is backed up in local storage as "${PRESETS_BACKUP_STORAGE_KEY}".`, type: "error" } });
+          }
+          dispatch({ type: 'IMPORT_PRESETS', payload: { presets: stored.presets } });
+        }
+        const storedProfiles = readStoredJson(EXPORT_PROFILES_STORAGE_KEY);
+        if (storedProfiles !== undefined) dispatch({ type: "LOAD_EXPORT_PROFILES", payload: parseExportProfiles(storedProfiles) });
+        const storedMaxEdge = localStorage.getItem(INGEST_MAX_EDGE_STORAGE_KEY);
+        if (storedMaxEdge) dispatch({ type: "SET_INGEST_MAX_EDGE", payload: +storedMaxEdge });
+        const storedThresholds = readStoredJson(QUALITY_THRESHOLDS_STORAGE_KEY);
+        if (storedThresholds !== undefined) dispatch({ type: "SET_QUALITY_THRESHOLDS", payload: parseQualityThresholds(storedThresholds) });
+        const storedPrices = readStoredJson(PRICE_TABLE_STORAGE_KEY);
+        if (storedPrices !== undefined) dispatch({ type: "SET_PRICE_TABLE", payload: parsePriceTable(storedPrices) });
+        const storedBudgets = readStoredJson(USAGE_BUDGETS_STORAGE_KEY);
+        if (storedBudgets !== undefined) dispatch({ type: "SET_USAGE_BUDGETS", payload: parseUsageBudgets(storedBudgets) });
+        dispatch({ type: "SET_USAGE_CLIENT", payload: localStorage.getItem(USAGE_CLIENT_STORAGE_KEY) ?? "" });
+        const storedModels = readStoredJson(MODELS_STORAGE_KEY);
+        const { models, errors: modelErrors } = storedModels !== undefined ? parseModels(storedModels) : { models: [], errors: [] };
+        if (modelErrors.length > 0) console.warn("Dropped invalid stored models:", modelErrors);
+        dispatch({ type: "LOAD_MODELS", payload: models });
+        const storedModel = localStorage.getItem(ACTIVE_MODEL_STORAGE_KEY);
+        if (storedModel && findModel(storedModel, allModels(models))?.imageOutput) dispatch({ type: "SET_MODEL", payload: storedModel });
+        const storedCache = readStoredJson(RESULT_CACHE_STORAGE_KEY);
+        if (storedCache !== undefined) dispatch({ type: "SET_RESULT_CACHE", payload: parseResultCacheSettings(storedCache) });
+        const storedTemplates = readStoredJson(PROMPT_TEMPLATES_STORAGE_KEY);
+        if (storedTemplates !== undefined) {
+          const { templates, errors } = validatePromptTemplates(storedTemplates);
+          if (errors.length > 0) console.warn("Dropped invalid stored prompt templates:", errors);
+          dispatch({ type: "SET_PROMPT_TEMPLATES", payload: templates });
+        }
       } catch (e) { console.error("Could not load from localStorage", e)}
+      libraryStore.migrateFromLocalStorage()
+        .then(migrated => { if (migrated > 0) dispatch({ type: "SHOW_TOAST", payload: { message: `Moved ${migrated} library item(s) to local database storage.`, type: "success" } }); })
+        .catch(e => console.error("Could not migrate library from localStorage", e))
+        .then(() => libraryStore.list())
+        .then(library => dispatch({ type: 'LOAD_LIBRARY', payload: { library } }))
+        .catch(e => console.error("Could not load library", e));
+      usageStore.list()
+        .then(records => dispatch({ type: "LOAD_USAGE_LOG", payload: records }))
+        .catch(e => console.error("Could not load usage log", e));
+  }, []);
+
+  useEffect(() => {
+      sessionStore.load()
+        .then(project => {
+          if (!project) return;
+          dispatch({ type: "RESTORE_WORKSPACE", payload: project.workspace });
+          dispatch({ type: "SHOW_TOAST", payload: { message: restoredMessage("Restored your previous session.", project.workspace), type: "success" } });
+        })
+        .catch(e => console.error("Could not restore session", e))
+        .finally(() => setSessionRestored(true));
   }, []);
 
   useEffect(() => {
-      localStorage.setItem('ai-portrait-presets', JSON.stringify(state.userPresets));
+      if (!isSessionRestored) return;
+      const t = setTimeout(() => sessionStore.save(captureWorkspace(state)).catch(e => console.error("Could not save session", e)), SESSION_SAVE_DELAY_MS);
+      return () => clearTimeout(t);
+  }, [isSessionRestored, currentImage, enhancedImage, enhancedBase, mask, activeItemId, refinement, currentPrompt, tools, state.history, state.historyIndex, state.savedHistories, promptTemplates, batchQueue, batchConcurrency]);
+
+  useEffect(() => {
+      localStorage.setItem('ai-portrait-presets', JSON.stringify(serializePresets(state.userPresets)));
   }, [state.userPresets]);
   
   useEffect(() => {
-      localStorage.setItem('ai-portrait-library', JSON.stringify(enhancedLibrary));
-  }, [enhancedLibrary]);
+      localStorage.setItem(EXPORT_PROFILES_STORAGE_KEY, JSON.stringify(state.exportProfiles));
+  }, [state.exportProfiles]);
+
+  useEffect(() => {
+      localStorage.setItem(INGEST_MAX_EDGE_STORAGE_KEY, String(ingestMaxEdge));
+  }, [ingestMaxEdge]);
+
+  useEffect(() => {
+      localStorage.setItem(PRICE_TABLE_STORAGE_KEY, JSON.stringify(state.priceTable));
+      localStorage.setItem(USAGE_BUDGETS_STORAGE_KEY, JSON.stringify(state.usageBudgets));
+      localStorage.setItem(USAGE_CLIENT_STORAGE_KEY, state.usageClient);
+  }, [state.priceTable, state.usageBudgets, state.usageClient]);
+
+  useEffect(() => {
+      localStorage.setItem(RESULT_CACHE_STORAGE_KEY, JSON.stringify(resultCache));
+  }, [resultCache]);
+
+  useEffect(() => {
+      localStorage.setItem(QUALITY_THRESHOLDS_STORAGE_KEY, JSON.stringify(state.qualityThresholds));
+  }, [state.qualityThresholds]);
+
+  useEffect(() => {
+      if (Object.keys(promptTemplates).length > 0) localStorage.setItem(PROMPT_TEMPLATES_STORAGE_KEY, JSON.stringify(promptTemplates));
+      else localStorage.removeItem(PROMPT_TEMPLATES_STORAGE_KEY);
+  }, [promptTemplates]);
+
+  useEffect(() => {
+      localStorage.setItem(PROVIDER_STORAGE_KEY, activeProvider);
+  }, [activeProvider]);
+
+  useEffect(() => {
+      localStorage.setItem(ACTIVE_MODEL_STORAGE_KEY, activeModel);
+  }, [activeModel]);
 
-  const processFiles = (files: FileList | File[]) => {
+  useEffect(() => {
+      localStorage.setItem(MODELS_STORAGE_KEY, JSON.stringify(customModels));
+  }, [customModels]);
+
+  // Keep the exported result in step with the tone sliders once a result has been graded locally.
+  useEffect(() => {
+      if (!enhancedBase) return;
+      const colorTone = tools.colorTone;
+      let cancelled = false;
+      const t = setTimeout(async () => {
+          try {
+              const image = usesLocalTone(colorTone) ? await applyColorToneToImage(enhancedBase, colorTone) : enhancedBase;
+              if (!cancelled) dispatch({ type: "REGRADE_ENHANCED_IMAGE", payload: image });
+          } catch (e) { console.error("Could not apply color & tone", e); }
+      }, 300);
+      return () => { cancelled = true; clearTimeout(t); };
+  }, [enhancedBase, tools.colorTone, dispatch]);
+
+  const openProject = async (file: File) => {
+    const hasWork = currentImage || batchQueue.length > 0;
+    if (hasWork && !confirm(`Open "${file.name}"? The current workspace will be replaced.`)) return;
+    try {
+      const project = await unpackProject(file);
+      batchControllers.current.forEach(controller => controller.abort());
+      dispatch({ type: "RESTORE_WORKSPACE", payload: project.workspace });
+      dispatch({ type: "SHOW_TOAST", payload: { message: restoredMessage(`Opened ${file.name}.`, project.workspace), type: "success" } });
+    } catch (e) {
+      dispatch({ type: "SHOW_TOAST", payload: { message: `Could not open ${file.name}: ${e instanceof Error ? e.message : "unreadable file"}`, type: "error" } });
+    }
+  };
+
+  // `settings` holds per-file batch settings from a manifest; without it every file gets the current tools.
+  const processFiles = async (files: FileList | File[], settings?: Map<File, BatchItemSettings>) => {
+    const project = Array.from(files).find(f => f.name.toLowerCase().endsWith(PROJECT_FILE_EXTENSION));
+    if (project) { openProject(project); return; }
     const imageFiles: File[] = Array.from(files).filter(f => f.type.startsWith("image/"));
     if (imageFiles.length === 0) { dispatch({ type: "SHOW_TOAST", payload: { message: "No valid image files selected.", type: "error" } }); return; }
     
-    const oversized = imageFiles.find(f => f.size > MAX_IMAGE_UPLOAD_SIZE_BYTES);
-    if (oversized) { dispatch({ type: "SHOW_TOAST", payload: { message: `File ${oversized.name} is too large (max 15MB).`, type: "error" } }); return; }
-    
-    const fileReaders: Promise<ImageFile>[] = imageFiles.map(file => new Promise((resolve) => {
-        const r = new FileReader();
-        r.onloadend = () => resolve({ name: file.name, type: file.type, data: r.result as string });
-        r.readAsDataURL(file);
-    }));
-    Promise.all(fileReaders).then(results => {
-        if(!currentImage || imageFiles.length > 1) dispatch({ type: "SET_IMAGE", payload: results[0] });
-        dispatch({ type: 'ADD_TO_BATCH', payload: {files: results }});
-        dispatch({ type: "SHOW_TOAST", payload: { message: `${results.length} image(s) added to queue.`, type: "success" } });
-    });
+    const oversized = imageFiles.find(f => f.size > MAX_IMAGE_INGEST_SIZE_BYTES);
+    if (oversized) { dispatch({ type: "SHOW_TOAST", payload: { message: `File ${oversized.name} is too large (max ${formatBytes(MAX_IMAGE_INGEST_SIZE_BYTES)}).`, type: "error" } }); return; }
+
+    // One at a time: decoding several large camera files at once can exhaust memory.
+    const results: ImageFile[] = [];
+    const sources: File[] = [];
+    const notes: string[] = [];
+    const failures: string[] = [];
+    for (const file of imageFiles) {
+        try {
+            const { image, changes } = await ingestFile(file, ingestMaxEdge);
+            results.push(image);
+            sources.push(file);
+            if (changes.length > 0) notes.push(`${file.name}: ${changes.join(", ")}`);
+        } catch (e) {
+            failures.push(e instanceof Error ? e.message : `${file.name}: could not be read.`);
+        }
+    }
+    if (results.length === 0) { dispatch({ type: "SHOW_TOAST", payload: { message: failures[0], type: "error" } }); return; }
+    if (!currentImage || imageFiles.length > 1) dispatch({ type: "SET_IMAGE", payload: results[0] });
+    dispatch({ type: 'ADD_TO_BATCH', payload: settings ? { items: results.map((file, i) => ({ file, ...settings.get(sources[i]) })) } : { files: results } });
+    const message = [
+        `${results.length} image(s) added to queue.`,
+        notes.length === 1 ? `${notes[0]}.` : notes.length > 1 && `${notes.length} were rotated, resized or converted.`,
+        failures.length > 0 && `Skipped ${failures.length}: ${failures[0]}`,
+    ].filter(Boolean).join(" ");
+    dispatch({ type: "SHOW_TOAST", payload: { message, type: failures.length > 0 ? "error" : "success" } });
   };
 
-  const handleEnhance = useCallback(async () => {
-    if (batchQueue.some(item => item.status === 'pending')) {
+  // `refresh` bypasses the result cache for the current image (Regenerate) and never starts the batch.
+  const runEnhance = useCallback(async (refresh: boolean) => {
+    if (!refresh && batchQueue.some(item => item.status === 'pending')) {
+        const overBudget = budgetExceeded(state.usageLog, batchQueue, state.usageBudgets);
+        if (overBudget) return dispatch({ type: "SHOW_TOAST", payload: { message: `${overBudget} Raise the budget in Usage to continue.`, type: "error" } });
+        dispatch({ type: "SET_BATCH_PAUSED", payload: false });
         const pending = batchQueue.filter(item => item.status === 'pending');
         if (pending.length > 0) {
             dispatch({ type: "SHOW_TOAST", payload: { message: `Starting batch enhancement for ${pending.length} images.`, type: "success" } });
@@ -924,42 +4988,177 @@ const App = () => {
     
     if (!currentImage) return dispatch({ type: "SHOW_TOAST", payload: { message: "Please upload an image first.", type: "error" } });
     
+    const onProgress = (progress: TileProgress) => dispatch({ type: "SET_ENHANCE_PROGRESS", payload: progress });
+    const onUsage = usage.reporter(currentImage.name);
+    // Variants are meant to differ, so they always make fresh requests.
+    const cache = resultCache.enabled && variantCount === 1 ? { refresh, maxBytes: resultCache.maxBytes } : undefined;
+    // The version being viewed becomes the parent, so enhancing after opening any version branches from it.
+    const parentId = activeItemId;
     dispatch({ type: "ENHANCE_START" });
+    if (variantCount > 1) {
+      const settled = await Promise.allSettled(Array.from({ length: variantCount }, () => enhanceImage({ image: currentImage, tools, model: activeModel, models: knownModels, mask: mask ?? undefined, templates: promptTemplates, onProgress, onUsage }, activeProvider)));
+      const candidates: Candidate[] = settled.flatMap((r, i) => r.status === 'fulfilled'
+        ? [{ id: `${currentImage.name}-${Date.now()}-v${i + 1}`, image: r.value.image, prompt: r.value.prompt, base: r.value.base, tools, model: activeModel, mask: mask ?? undefined, parentId: parentId ?? undefined }]
+        : []);
+      const failed = settled.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (candidates.length === 0) {
+        const msg = formatError(classifyError(failed?.reason, { tools, templates: promptTemplates }));
+        dispatch({ type: "ENHANCE_FAILURE", payload: msg });
+        return dispatch({ type: "SHOW_TOAST", payload: { message: msg, type: "error" } });
+      }
+      dispatch({ type: "CANDIDATES_SUCCESS", payload: { candidates } });
+      const summary = failed ? `${candidates.length} of ${variantCount} variants ready` : `${candidates.length} variants ready`;
+      return dispatch({ type: "SHOW_TOAST", payload: { message: `${summary}. Pick the ones to keep.`, type: failed ? "error" : "success" } });
+    }
     try {
-      const result = await enhanceImage(currentImage, tools, activeModel);
-      dispatch({ type: "ENHANCE_SUCCESS", payload: result });
+      const result = await enhanceImage({ image: currentImage, tools, model: activeModel, models: knownModels, mask: mask ?? undefined, templates: promptTemplates, onProgress, onUsage, cache }, activeProvider);
+      const id = `${currentImage.name}-${Date.now()}`;
+      dispatch({ type: "ENHANCE_SUCCESS", payload: { ...result, id } });
       const finishedItem: BatchItem = {
-          id: `${currentImage.name}-${Date.now()}`, file: currentImage, status: 'done',
-          result: result.image, prompt: result.prompt, preset: tools
+          id, file: currentImage, status: 'done',
+          result: result.image, prompt: result.prompt, preset: tools, mask: mask ?? undefined,
+          parentId: parentId ?? undefined, model: activeModel, metrics: await analyzeResultSafe(currentImage, result.image, tools), cached: result.metadata.cached
       };
-      dispatch({ type: "ADD_TO_LIBRARY", payload: { item: finishedItem } });
-      dispatch({ type: "SHOW_TOAST", payload: { message: "Image enhanced and saved to library!", type: "success" } });
+      await library.add(finishedItem);
+      dispatch({ type: "SHOW_TOAST", payload: { message: result.metadata.cached ? "Reused a cached result for these settings (no API call)." : "Image enhanced and saved to library!", type: "success" } });
     } catch (err) {
-      const msg = err instanceof Error ? err.message : "An unknown error occurred.";
+      const msg = formatError(classifyError(err, { tools, templates: promptTemplates }));
       dispatch({ type: "ENHANCE_FAILURE", payload: msg });
       dispatch({ type: "SHOW_TOAST", payload: { message: msg, type: "error" } });
     }
-  }, [currentImage, tools, activeModel, dispatch, batchQueue]);
+  }, [currentImage, mask, tools, promptTemplates, variantCount, activeItemId, activeModel, activeProvider, knownModels, dispatch, batchQueue, library, usage, state.usageLog, state.usageBudgets, resultCache]);
+  const handleEnhance = useCallback(() => runEnhance(false), [runEnhance]);
+  const handleRegenerate = useCallback(() => runEnhance(true), [runEnhance]);
+
+  // Sends the current image and settings to each model at once; the results come back as candidates, one per model.
+  const handleCompareModels = useCallback(async (models: ModelName[]) => {
+    if (!currentImage) return;
+    const onUsage = usage.reporter(currentImage.name);
+    const cache = resultCache.enabled ? { refresh: false, maxBytes: resultCache.maxBytes } : undefined;
+    const parentId = activeItemId;
+    dispatch({ type: "ENHANCE_START" });
+    const settled = await Promise.allSettled(models.map(model => enhanceImage({ image: currentImage, tools, model, models: knownModels, mask: mask ?? undefined, templates: promptTemplates, onUsage, cache }, activeProvider)));
+    const stamp = Date.now();
+    const candidates: Candidate[] = settled.flatMap((r, i) => r.status === 'fulfilled'
+      ? [{ id: `${currentImage.name}-${stamp}-${models[i]}`, image: r.value.image, prompt: r.value.prompt, base: r.value.base, tools, model: models[i], mask: mask ?? undefined, parentId: parentId ?? undefined }]
+      : []);
+    const failures = settled.flatMap((r, i) => r.status === 'rejected' ? [`${modelLabel(models[i], knownModels)}: ${formatError(classifyError(r.reason, { tools, templates: promptTemplates }))}`] : []);
+    if (candidates.length === 0) {
+      dispatch({ type: "ENHANCE_FAILURE", payload: failures[0] });
+      return dispatch({ type: "SHOW_TOAST", payload: { message: failures.join(" "), type: "error" } });
+    }
+    dispatch({ type: "CANDIDATES_SUCCESS", payload: { candidates } });
+    const summary = failures.length > 0 ? `${candidates.length} of ${models.length} models finished. ${failures.join(" ")}` : `Compared ${models.length} models. Pick the results to keep.`;
+    dispatch({ type: "SHOW_TOAST", payload: { message: summary, type: failures.length > 0 ? "error" : "success" } });
+  }, [currentImage, mask, tools, promptTemplates, activeItemId, activeProvider, knownModels, dispatch, usage, resultCache]);
+
+  const handleKeepCandidates = useCallback(async (ids: string[]) => {
+      if (!currentImage) return;
+      const keep = candidates.filter(c => ids.includes(c.id) && !c.kept);
+      const saved: string[] = [];
+      for (const c of keep) {
+          const metrics = await analyzeResultSafe(currentImage, c.image, c.tools);
+          if (await library.add({ id: c.id, file: currentImage, status: 'done', result: c.image, prompt: c.prompt, preset: c.tools, mask: c.mask, parentId: c.parentId, model: c.model, metrics })) saved.push(c.id);
+      }
+      dispatch({ type: "MARK_CANDIDATES_KEPT", payload: { ids: saved } });
+      // A failed save has already shown its own error toast.
+      if (saved.length > 0 && saved.length === keep.length) dispatch({ type: "SHOW_TOAST", payload: { message: `Saved ${saved.length} variant(s) to library.`, type: "success" } });
+  }, [currentImage, candidates, library, dispatch]);
   
+  // Writes the refinement thread back to the batch queue and library copies of the active result.
+  const persistRefinement = useCallback(async (thread: RefinementThread) => {
+      if (!activeItemId) return;
+      const result = activeRefinementImage(thread);
+      const metrics = currentImage ? await analyzeResultSafe(currentImage, result, tools) : undefined;
+      if (batchQueue.some(item => item.id === activeItemId)) dispatch({ type: 'UPDATE_BATCH_ITEM', payload: { id: activeItemId, result, refinement: thread, metrics } });
+      const entry = enhancedLibrary.find(e => e.id === activeItemId);
+      if (entry) {
+          try { await library.add({ ...(await libraryStore.load(entry)), result, refinement: thread, metrics }); }
+          catch (e) { console.error("Could not update library item", e); }
+      }
+  }, [activeItemId, currentImage, tools, batchQueue, enhancedLibrary, library, dispatch]);
+
+  const handleRefine = useCallback(async (instruction: string) => {
+      if (!currentImage || !enhancedImage) return;
+      const history = (refinement?.turns.slice(0, refinement.active + 1) ?? []).map(t => t.instruction);
+      dispatch({ type: "REFINE_START" });
+      try {
+          const result = await refineImage({ original: currentImage, basePrompt: currentPrompt, previous: enhancedImage, history, instruction, model: activeModel, models: knownModels, onUsage: usage.reporter(currentImage.name, activeItemId ?? undefined) }, activeProvider);
+          const turn: RefinementTurn = { id: `turn_${Date.now()}`, instruction, prompt: result.prompt, image: result.image, createdAt: Date.now() };
+          const thread = appendRefinementTurn(refinement, enhancedImage, turn);
+          dispatch({ type: "REFINE_SUCCESS", payload: { thread } });
+          await persistRefinement(thread);
+      } catch (err) {
+          const msg = formatError(classifyError(err, { instruction }));
+          dispatch({ type: "REFINE_FAILURE" });
+          dispatch({ type: "SHOW_TOAST", payload: { message: msg, type: "error" } });
+      }
+  }, [currentImage, enhancedImage, refinement, currentPrompt, activeModel, activeProvider, knownModels, activeItemId, dispatch, persistRefinement, usage]);
+
+  const handleRevert = useCallback((index: number) => {
+      if (!refinement) return;
+      dispatch({ type: "SELECT_REFINEMENT", payload: { index } });
+      persistRefinement({ ...refinement, active: index });
+  }, [refinement, dispatch, persistRefinement]);
+
+  // Abort in-flight requests for items that were cancelled or cleared from the queue.
+  useEffect(() => {
+      batchControllers.current.forEach((controller, id) => {
+          const item = batchQueue.find(i => i.id === id);
+          if (!item || item.status === 'cancelled') controller.abort();
+      });
+  }, [batchQueue]);
+
+  // Stop starting new items once a budget is spent; items already running finish.
+  const overBudget = useMemo(() => budgetExceeded(state.usageLog, batchQueue, state.usageBudgets), [state.usageLog, batchQueue, state.usageBudgets]);
+  useEffect(() => {
+      if (!overBudget || batchPaused || !batchQueue.some(item => item.status === 'pending')) return;
+      dispatch({ type: "SET_BATCH_PAUSED", payload: true });
+      dispatch({ type: "SHOW_TOAST", payload: { message: `${overBudget} Batch paused.`, type: "error" } });
+  }, [overBudget, batchPaused, batchQueue, dispatch]);
+
   useEffect(() => {
-      const processingItems = batchQueue.filter(i => i.status === 'processing').length;
+      if (batchPaused || overBudget) return;
+      const activeItems = batchQueue.filter(i => i.status === 'processing' || i.status === 'retrying').length;
       const pendingItems = batchQueue.filter(i => i.status === 'pending');
-      if (processingItems >= BATCH_CONCURRENCY || pendingItems.length === 0) return;
+      if (activeItems >= batchConcurrency || pendingItems.length === 0) return;
 
-      const itemsToProcess = pendingItems.slice(0, BATCH_CONCURRENCY - processingItems);
+      const itemsToProcess = pendingItems.slice(0, batchConcurrency - activeItems);
       itemsToProcess.forEach(async item => {
-          dispatch({ type: 'UPDATE_BATCH_ITEM', payload: { id: item.id, status: 'processing' }});
+          const model = item.model ?? activeModel;
+          const itemTools = item.preset || tools;
+          const itemTemplates = item.promptTemplates ?? promptTemplates;
+          const controller = new AbortController();
+          batchControllers.current.set(item.id, controller);
+          dispatch({ type: 'UPDATE_BATCH_ITEM', payload: { id: item.id, status: 'processing', error: undefined, failure: undefined }});
           try {
-              const result = await enhanceImage(item.file, item.preset || tools, activeModel);
-              const finishedItem: BatchItem = { ...item, status: 'done', result: result.image, prompt: result.prompt };
+              const result = await withRetry(attempt => {
+                  if (attempt > 0) dispatch({ type: 'UPDATE_BATCH_ITEM', payload: { id: item.id, status: 'processing', attempts: attempt }});
+                  return enhanceImage({ image: item.file, tools: itemTools, model, models: knownModels, mask: item.mask, templates: itemTemplates, signal: controller.signal,
+                      onProgress: progress => dispatch({ type: 'UPDATE_BATCH_ITEM', payload: { id: item.id, progress } }), onUsage: usage.reporter(item.file.name, item.id),
+                      cache: resultCache.enabled ? { refresh: !!item.refreshCache, maxBytes: resultCache.maxBytes } : undefined }, activeProvider);
+              }, {
+                  // Tiled upscales retry each request inside enhanceImage.
+                  retries: usesTiledUpscale(itemTools.superResolution) ? 0 : BATCH_MAX_RETRIES, signal: controller.signal,
+                  onRetry: (err, attempt, delayMs) => {
+                      const failure = classifyError(err);
+                      dispatch({ type: 'UPDATE_BATCH_ITEM', payload: { id: item.id, status: 'retrying', attempts: attempt, failure, error: `Retry ${attempt}/${BATCH_MAX_RETRIES} in ${Math.round(delayMs / 1000)}s: ${failure.title}` }});
+                  },
+              });
+              const metrics = await analyzeResultSafe(item.file, result.image, itemTools);
+              if (controller.signal.aborted) return;
+              const finishedItem: BatchItem = { ...item, status: 'done', result: result.image, prompt: result.prompt, error: undefined, failure: undefined, model, metrics, cached: result.metadata.cached, refreshCache: undefined };
               dispatch({ type: 'UPDATE_BATCH_ITEM', payload: finishedItem });
-              dispatch({ type: 'ADD_TO_LIBRARY', payload: { item: finishedItem } });
+              library.add(finishedItem);
           } catch(err) {
-              const msg = err instanceof Error ? err.message : "An unknown error occurred.";
-              dispatch({ type: 'UPDATE_BATCH_ITEM', payload: { id: item.id, status: 'error', error: msg }});
+              if (controller.signal.aborted) return;
+              const failure = classifyError(err, { tools: itemTools, templates: itemTemplates });
+              dispatch({ type: 'UPDATE_BATCH_ITEM', payload: { id: item.id, status: 'error', error: formatError(failure), failure }});
+          } finally {
+              batchControllers.current.delete(item.id);
           }
       });
-  }, [batchQueue, tools, activeModel, dispatch]);
+  }, [batchQueue, batchPaused, overBudget, batchConcurrency, tools, promptTemplates, activeModel, activeProvider, knownModels, dispatch, library, usage, resultCache]);
 
   const onDragOver = (e: DragEvent<HTMLDivElement>) => { e.preventDefault(); e.stopPropagation(); setIsDragging(true); };
   const onDragLeave = (e: DragEvent<HTMLDivElement>) => { e.preventDefault(); e.stopPropagation(); setIsDragging(false); };
@@ -978,14 +5177,17 @@ const App = () => {
 
   return (
     <div className="min-h-screen p-4 sm:p-6 lg:p-8" onDrop={onDrop} onDragOver={onDragOver} onDragLeave={onDragLeave} onPaste={onPaste}>
-      {!apiKey && <div className="bg-destructive text-destructive-foreground p-3 rounded-md text-center mb-4 fixed top-0 left-1/2 -translate-x-1/2 mt-4 z-50 shadow-lg animate-fade-in-down"><strong>Warning:</strong> API Key is not configured. The application will not function.</div>}
-      <Header onEnhance={handleEnhance} onUpload={(files) => processFiles(files)} onLibraryOpen={() => setLibraryOpen(true)} />
+      {!ENHANCEMENT_PROVIDERS[activeProvider].isAvailable() && <div className="bg-destructive text-destructive-foreground p-3 rounded-md text-center mb-4 fixed top-0 left-1/2 -translate-x-1/2 mt-4 z-50 shadow-lg animate-fade-in-down"><strong>Warning:</strong> API Key is not configured. Switch to the local provider to work offline.</div>}
+      <Header onEnhance={handleEnhance} onRegenerate={handleRegenerate} onUpload={(files) => processFiles(files)} onLibraryOpen={() => setLibraryOpen(true)} onProjectOpen={openProject} onManifestOpen={() => setManifestOpen(true)} onUsageOpen={() => setUsageOpen(true)} onModelsOpen={() => setModelsOpen(true)} />
       <main className="grid grid-cols-1 lg:grid-cols-3 gap-8 pb-48">
         <ToolsPanel />
-        <div className="lg:col-span-2"><ImageViewer /></div>
+        <div className="lg:col-span-2"><div className="flex flex-col lg:flex-row gap-4 items-start"><div className="flex-grow w-full min-w-0"><ImageViewer /></div><VersionTimeline /></div><CandidateGrid onKeep={handleKeepCandidates} /><QualityPanel /><RefinementPanel onRefine={handleRefine} onRevert={handleRevert} /></div>
       </main>
       <BatchQueue />
       <LibraryModal open={isLibraryOpen} onClose={() => setLibraryOpen(false)} />
+      <UsageModal open={isUsageOpen} onClose={() => setUsageOpen(false)} />
+      <ModelsModal open={isModelsOpen} onClose={() => setModelsOpen(false)} onCompare={handleCompareModels} />
+      <ManifestModal open={isManifestOpen} onClose={() => setManifestOpen(false)} onQueue={processFiles} />
       <Toast />
       {isDragging && (<div className="fixed inset-0 bg-primary/20 backdrop-blur-sm z-50 flex items-center justify-center pointer-events-none animate-fade-in"><div className="text-2xl font-bold text-primary-foreground p-8 bg-primary rounded-lg shadow-2xl">Drop your image(s) here</div></div>)}
     </div>